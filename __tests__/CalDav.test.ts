@@ -78,4 +78,49 @@ describe('CalDav Node - URL and Path Handling', () => {
       );
     });
   });
+
+  describe('Retries', () => {
+    test('should retry a 503 response and record the retry count', async () => {
+      mockGetCredentials.mockResolvedValue({ baseUrl: 'https://caldav.example.com' });
+      mockGetInputData.mockReturnValue([{ json: {} }]);
+      mockGetNodeParameter.mockImplementation((name: string, itemIndex: number, fallback?: any) => {
+        const params: Record<string, any> = {
+          resource: 'calendar',
+          operation: 'deleteEvent',
+          calendarPath: '/calendars/user/work',
+          eventId: 'event-1',
+          retry: { maxRetries: 2, initialDelay: 1 },
+        };
+        return name in params ? params[name] : fallback;
+      });
+      mockHelpers.httpRequest
+        .mockRejectedValueOnce(Object.assign(new Error('unavailable'), { statusCode: 503 }))
+        .mockResolvedValueOnce({ statusCode: 204 });
+
+      const result = await (calDavNode as any).execute();
+      expect(mockHelpers.httpRequest).toHaveBeenCalledTimes(2);
+      expect(result[0][0].json).toMatchObject({ success: true, statusCode: 204, httpRetries: 1 });
+    });
+
+    test('should record the retry count on items that fail under Continue On Fail', async () => {
+      (calDavNode as any).continueOnFail = jest.fn(() => true);
+      mockGetCredentials.mockResolvedValue({ baseUrl: 'https://caldav.example.com' });
+      mockGetInputData.mockReturnValue([{ json: { id: 1 } }]);
+      mockGetNodeParameter.mockImplementation((name: string, itemIndex: number, fallback?: any) => {
+        const params: Record<string, any> = {
+          resource: 'calendar',
+          operation: 'deleteEvent',
+          calendarPath: '/calendars/user/work',
+          eventId: 'event-1',
+          retry: { maxRetries: 1, initialDelay: 1 },
+        };
+        return name in params ? params[name] : fallback;
+      });
+      mockHelpers.httpRequest.mockRejectedValue(Object.assign(new Error('unavailable'), { statusCode: 503 }));
+
+      const result = await (calDavNode as any).execute();
+      expect(mockHelpers.httpRequest).toHaveBeenCalledTimes(2);
+      expect(result[0][0].json).toEqual({ id: 1, httpRetries: 1 });
+    });
+  });
 });
@@ -78,4 +78,41 @@ describe('CardDav Node - URL and Path Handling', () => {
       );
     });
   });
+
+  describe('Retries', () => {
+    beforeEach(() => {
+      mockGetCredentials.mockResolvedValue({ baseUrl: 'https://carddav.example.com' });
+      mockGetInputData.mockReturnValue([{ json: { id: 1 } }]);
+      mockGetNodeParameter.mockImplementation((name: string, itemIndex: number, fallback?: any) => {
+        const params: Record<string, any> = {
+          resource: 'addressbook',
+          operation: 'deleteContact',
+          addressBookPath: '/addressbooks/user/contacts',
+          contactId: 'contact-1',
+          retry: { maxRetries: 2, initialDelay: 1 },
+        };
+        return name in params ? params[name] : fallback;
+      });
+    });
+
+    test('should retry a 503 response and record the retry count', async () => {
+      mockHelpers.httpRequest
+        .mockRejectedValueOnce(Object.assign(new Error('unavailable'), { statusCode: 503 }))
+        .mockResolvedValueOnce({ status: 204 });
+
+      const result = await (cardDavNode as any).execute();
+      expect(mockHelpers.httpRequest).toHaveBeenCalledTimes(2);
+      expect(result[0][0].json).toMatchObject({ success: true, statusCode: 204, httpRetries: 1 });
+    });
+
+    test('should record the retry count on items that fail under Continue On Fail', async () => {
+      (cardDavNode as any).continueOnFail = jest.fn(() => true);
+      mockHelpers.httpRequest.mockRejectedValue(Object.assign(new Error('unavailable'), { statusCode: 503 }));
+
+      const result = await (cardDavNode as any).execute();
+      expect(mockHelpers.httpRequest).toHaveBeenCalledTimes(3);
+      expect(result[0][0].json).toEqual({ id: 1, httpRetries: 2 });
+      expect(result[0][0].error.message).toContain('HTTP 503');
+    });
+  });
 });
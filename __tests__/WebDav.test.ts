@@ -1,3 +1,7 @@
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import { gunzipSync } from 'zlib';
+import { createZip, readZip } from '../nodes/WebDav/GenericFunctions';
 import { WebDav } from '../nodes/WebDav/WebDav.node';
 
 // Mock n8n workflow
@@ -47,6 +51,13 @@ describe('WebDav Node - URL and Path Handling', () => {
     (webDavNode as any).continueOnFail = jest.fn(() => false);
   });
 
+  // Resolve node parameters by name; unknown parameters fall back to the provided default
+  const mockParameters = (params: Record<string, any>) => {
+    mockGetNodeParameter.mockImplementation((name: string, _itemIndex: number, fallback?: any) =>
+      name in params ? params[name] : fallback,
+    );
+  };
+
   describe('Base URL Validation', () => {
     test('should throw error for missing protocol in base URL', async () => {
       mockGetCredentials.mockResolvedValue({ baseUrl: 'webdav.example.com' });
@@ -66,6 +77,7 @@ describe('WebDav Node - URL and Path Handling', () => {
       mockGetNodeParameter
         .mockReturnValueOnce('get')   // operation
         .mockReturnValueOnce('/test.txt') // path
+        .mockReturnValueOnce({})      // options
         .mockReturnValueOnce('file'); // resource
 
       mockHelpers.httpRequest.mockResolvedValue({
@@ -141,6 +153,7 @@ describe('WebDav Node - URL and Path Handling', () => {
       mockGetNodeParameter
         .mockReturnValueOnce('get')   // operation
         .mockReturnValueOnce('Files/Documents/test file.txt') // path
+        .mockReturnValueOnce({})      // options
         .mockReturnValueOnce('file'); // resource
 
       const invalidUrlError = new Error('Invalid URL');
@@ -159,6 +172,7 @@ describe('WebDav Node - URL and Path Handling', () => {
       mockGetNodeParameter
         .mockReturnValueOnce('get')
         .mockReturnValueOnce('/test.txt')
+        .mockReturnValueOnce({})
         .mockReturnValueOnce('file');
 
       mockHelpers.httpRequest.mockResolvedValue({
@@ -177,6 +191,7 @@ describe('WebDav Node - URL and Path Handling', () => {
       mockGetNodeParameter
         .mockReturnValueOnce('get')
         .mockReturnValueOnce('/test.txt')
+        .mockReturnValueOnce({})
         .mockReturnValueOnce('file');
 
       mockHelpers.httpRequest.mockResolvedValue({
@@ -196,6 +211,7 @@ describe('WebDav Node - URL and Path Handling', () => {
       mockGetNodeParameter
         .mockReturnValueOnce('get')
         .mockReturnValueOnce('/test.txt')
+        .mockReturnValueOnce({})
         .mockReturnValueOnce('file');
 
       const buffer = Buffer.from('test');
@@ -259,4 +275,2358 @@ describe('WebDav Node - URL and Path Handling', () => {
       });
     });
   });
+
+  describe('Locking', () => {
+    beforeEach(() => {
+      mockGetCredentials.mockResolvedValue({ baseUrl: 'https://webdav.example.com' });
+      mockGetInputData.mockReturnValue([{ json: {} }]);
+    });
+
+    test('should send LOCK with lockinfo body and return the granted token', async () => {
+      mockParameters({
+        resource: 'file',
+        operation: 'lock',
+        path: '/Shared/budget.xlsx',
+        lockScope: 'exclusive',
+        lockTimeout: 600,
+        lockOwner: 'n8n & friends',
+        lockDepth: '0',
+      });
+      mockHelpers.httpRequest.mockResolvedValue({
+        statusCode: 200,
+        headers: { 'lock-token': '<opaquelocktoken:abc-123>' },
+        body: `<?xml version="1.0"?>
+<d:prop xmlns:d="DAV:"><d:lockdiscovery><d:activelock>
+<d:locktype><d:write/></d:locktype><d:lockscope><d:exclusive/></d:lockscope>
+<d:depth>0</d:depth><d:owner>n8n &amp; friends</d:owner><d:timeout>Second-600</d:timeout>
+<d:locktoken><d:href>opaquelocktoken:abc-123</d:href></d:locktoken>
+<d:lockroot><d:href>/Shared/budget.xlsx</d:href></d:lockroot>
+</d:activelock></d:lockdiscovery></d:prop>`,
+      });
+
+      const result = await (webDavNode as any).execute();
+      const request = mockHelpers.httpRequest.mock.calls[0][0];
+      expect(request.method).toBe('LOCK');
+      expect(request.url).toBe('https://webdav.example.com/Shared/budget.xlsx');
+      expect(request.headers).toMatchObject({ Depth: '0', Timeout: 'Second-600' });
+      expect(request.body).toContain('<D:exclusive/>');
+      expect(request.body).toContain('<D:owner>n8n &amp; friends</D:owner>');
+      expect(result[0][0].json).toMatchObject({
+        success: true,
+        lockToken: 'opaquelocktoken:abc-123',
+        scope: 'exclusive',
+        depth: '0',
+        timeout: 'Second-600',
+        lockRoot: '/Shared/budget.xlsx',
+      });
+    });
+
+    test('should send the lock token in the If header on upload', async () => {
+      mockGetInputData.mockReturnValue([
+        { json: {}, binary: { data: { mimeType: 'text/plain' } } },
+      ]);
+      mockParameters({
+        resource: 'file',
+        operation: 'put',
+        path: '/Shared/budget.xlsx',
+        binaryPropertyName: 'data',
+        options: { lockId: '<opaquelocktoken:abc-123>' },
+      });
+      mockHelpers.httpRequest.mockResolvedValue({ statusCode: 204 });
+
+      await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls[0][0].headers.If).toBe('(<opaquelocktoken:abc-123>)');
+    });
+
+    test('should tag the lock token with the destination on copy', async () => {
+      mockParameters({
+        resource: 'file',
+        operation: 'copy',
+        path: '/a.txt',
+        destination: '/b.txt',
+        overwrite: true,
+        options: { lockId: 'opaquelocktoken:abc-123' },
+      });
+      mockHelpers.httpRequest.mockResolvedValue({ statusCode: 204 });
+
+      await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls[0][0].headers.If).toBe(
+        '<https://webdav.example.com/b.txt> (<opaquelocktoken:abc-123>)',
+      );
+    });
+
+    test('should send UNLOCK with the Lock-Token header', async () => {
+      mockParameters({
+        resource: 'file',
+        operation: 'unlock',
+        path: '/Shared/budget.xlsx',
+        lockId: 'opaquelocktoken:abc-123',
+      });
+      mockHelpers.httpRequest.mockResolvedValue({ statusCode: 204 });
+
+      const result = await (webDavNode as any).execute();
+      const request = mockHelpers.httpRequest.mock.calls[0][0];
+      expect(request.method).toBe('UNLOCK');
+      expect(request.headers['Lock-Token']).toBe('<opaquelocktoken:abc-123>');
+      expect(result[0][0].json).toMatchObject({ success: true, statusCode: 204 });
+    });
+
+    test('should explain 423 Locked responses', async () => {
+      mockParameters({ resource: 'file', operation: 'delete', path: '/Shared/budget.xlsx' });
+      mockHelpers.httpRequest.mockRejectedValue({ statusCode: 423, message: 'Locked' });
+
+      await expect((webDavNode as any).execute()).rejects.toThrow(
+        'HTTP 423 Locked for WebDAV delete on file: "/Shared/budget.xlsx". The resource is locked',
+      );
+    });
+  });
+
+  describe('Set Properties', () => {
+    beforeEach(() => {
+      mockGetCredentials.mockResolvedValue({ baseUrl: 'https://webdav.example.com' });
+      mockGetInputData.mockReturnValue([{ json: {} }]);
+    });
+
+    test('should send PROPPATCH and report per-property failures', async () => {
+      mockParameters({
+        resource: 'file',
+        operation: 'proppatch',
+        path: '/Invoices/2026-001.pdf',
+        setProperties: {
+          property: [
+            { namespace: 'urn:acme', name: 'customer-id', value: 'C<42>' },
+            { namespace: 'DAV:', name: 'getetag', value: 'x' },
+          ],
+        },
+        removeProperties: { property: [{ namespace: 'urn:acme', name: 'state' }] },
+      });
+      mockHelpers.httpRequest.mockResolvedValue({
+        statusCode: 207,
+        body: `<?xml version="1.0"?>
+<d:multistatus xmlns:d="DAV:" xmlns:a="urn:acme">
+  <d:response>
+    <d:href>/Invoices/2026-001.pdf</d:href>
+    <d:propstat>
+      <d:prop><d:getetag/></d:prop>
+      <d:status>HTTP/1.1 403 Forbidden</d:status>
+      <d:error><d:cannot-modify-protected-property/></d:error>
+    </d:propstat>
+    <d:propstat>
+      <d:prop><a:customer-id/><a:state/></d:prop>
+      <d:status>HTTP/1.1 424 Failed Dependency</d:status>
+    </d:propstat>
+  </d:response>
+</d:multistatus>`,
+      });
+
+      const result = await (webDavNode as any).execute();
+      const request = mockHelpers.httpRequest.mock.calls[0][0];
+      expect(request.method).toBe('PROPPATCH');
+      expect(request.body).toContain('xmlns:x0="urn:acme"');
+      expect(request.body).toContain('<x0:customer-id>C&lt;42&gt;</x0:customer-id>');
+      expect(request.body).toContain('<D:getetag>x</D:getetag>');
+      expect(request.body).toContain('<D:remove>');
+      expect(request.body).toContain('<x0:state/>');
+
+      const json = result[0][0].json;
+      expect(json.success).toBe(false);
+      expect(json.properties).toEqual([
+        expect.objectContaining({ action: 'set', name: 'customer-id', status: 424, success: false }),
+        expect.objectContaining({
+          action: 'set',
+          name: 'getetag',
+          status: 403,
+          error: ['cannot-modify-protected-property'],
+        }),
+        expect.objectContaining({ action: 'remove', name: 'state', status: 424 }),
+      ]);
+      expect(json.failed).toHaveLength(3);
+    });
+
+    test('should report success when every property was applied', async () => {
+      mockParameters({
+        resource: 'file',
+        operation: 'proppatch',
+        path: '/a.txt',
+        setProperties: { property: [{ namespace: 'urn:acme', name: 'state', value: 'done' }] },
+      });
+      mockHelpers.httpRequest.mockResolvedValue({
+        statusCode: 207,
+        body: `<D:multistatus xmlns:D="DAV:"><D:response><D:href>/a.txt</D:href><D:propstat>
+<D:prop><state xmlns="urn:acme"/></D:prop><D:status>HTTP/1.1 200 OK</D:status>
+</D:propstat></D:response></D:multistatus>`,
+      });
+
+      const result = await (webDavNode as any).execute();
+      expect(result[0][0].json).toMatchObject({ success: true, failed: [] });
+      expect(result[0][0].json.properties[0]).toMatchObject({ namespace: 'urn:acme', status: 200 });
+    });
+  });
+
+  describe('Get Properties', () => {
+    const multistatus = `<?xml version="1.0"?>
+<d:multistatus xmlns:d="DAV:" xmlns:oc="http://owncloud.org/ns" xmlns:a="urn:acme">
+  <d:response>
+    <d:href>/remote.php/dav/files/alice/Reports/</d:href>
+    <d:propstat>
+      <d:prop>
+        <d:resourcetype><d:collection/></d:resourcetype>
+        <d:getetag>&quot;5f2a&quot;</d:getetag>
+        <oc:fileid>1042</oc:fileid>
+        <oc:permissions>RGDNVCK</oc:permissions>
+      </d:prop>
+      <d:status>HTTP/1.1 200 OK</d:status>
+    </d:propstat>
+    <d:propstat>
+      <d:prop><a:customer-id/></d:prop>
+      <d:status>HTTP/1.1 404 Not Found</d:status>
+    </d:propstat>
+  </d:response>
+  <d:response>
+    <d:href>/remote.php/dav/files/alice/Reports/q3%20summary.pdf</d:href>
+    <d:propstat>
+      <d:prop>
+        <d:resourcetype/>
+        <d:getcontentlength>2048</d:getcontentlength>
+        <a:customer-id>C-42</a:customer-id>
+      </d:prop>
+      <d:status>HTTP/1.1 200 OK</d:status>
+    </d:propstat>
+  </d:response>
+</d:multistatus>`;
+
+    beforeEach(() => {
+      mockGetCredentials.mockResolvedValue({ baseUrl: 'https://cloud.example.com/remote.php/dav' });
+      mockGetInputData.mockReturnValue([{ json: {} }]);
+    });
+
+    test('should request selected and custom properties with namespaces', async () => {
+      mockParameters({
+        resource: 'file',
+        operation: 'propfind',
+        path: '/files/alice/Reports',
+        depth: '1',
+        propertyMode: 'custom',
+        properties: ['{DAV:}getetag', '{http://owncloud.org/ns}fileid', '{http://owncloud.org/ns}permissions'],
+        customProperties: { property: [{ namespace: 'urn:acme', name: 'customer-id' }] },
+      });
+      mockHelpers.httpRequest.mockResolvedValue({ statusCode: 207, body: multistatus });
+
+      const result = await (webDavNode as any).execute();
+      const request = mockHelpers.httpRequest.mock.calls[0][0];
+      expect(request.body).toContain('xmlns:x0="http://owncloud.org/ns"');
+      expect(request.body).toContain('xmlns:x1="urn:acme"');
+      expect(request.body).toContain('<D:resourcetype/>');
+      expect(request.body).toContain('<x0:fileid/>');
+      expect(request.body).toContain('<x1:customer-id/>');
+
+      const [folder, file] = result[0][0].json.properties;
+      expect(folder).toMatchObject({
+        href: '/remote.php/dav/files/alice/Reports/',
+        isCollection: true,
+        etag: '"5f2a"',
+        props: { resourcetype: ['collection'], 'oc:fileid': '1042', 'oc:permissions': 'RGDNVCK' },
+        failedProperties: [{ key: '{urn:acme}customer-id', name: 'customer-id', status: 404 }],
+      });
+      expect(file).toMatchObject({
+        href: '/remote.php/dav/files/alice/Reports/q3 summary.pdf',
+        isCollection: false,
+        contentLength: 2048,
+        props: { '{urn:acme}customer-id': 'C-42' },
+        failedProperties: [],
+      });
+    });
+
+    test('should send allprop with include and propname bodies', async () => {
+      mockParameters({
+        resource: 'file',
+        operation: 'propfind',
+        path: '/',
+        propertyMode: 'allprop',
+        customProperties: { property: [{ namespace: 'urn:acme', name: 'state' }] },
+      });
+      mockHelpers.httpRequest.mockResolvedValue({ statusCode: 207, body: multistatus });
+      await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls[0][0].body).toMatch(
+        /<D:allprop\/>\s*<D:include>\s*<x0:state\/>\s*<\/D:include>/,
+      );
+
+      mockParameters({ resource: 'file', operation: 'propfind', path: '/', propertyMode: 'propname' });
+      await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls[1][0].body).toContain('<D:propname/>');
+    });
+  });
+
+  describe('Chunked Upload', () => {
+    const MB = 1024 * 1024;
+    const file = Buffer.alloc(2.5 * MB, 1);
+
+    beforeEach(() => {
+      mockGetCredentials.mockResolvedValue({
+        baseUrl: 'https://cloud.example.com/remote.php/dav',
+        username: 'alice',
+      });
+      mockGetInputData.mockReturnValue([
+        { json: {}, binary: { data: { mimeType: 'video/mp4' } } },
+      ]);
+      mockHelpers.getBinaryDataBuffer.mockResolvedValue(file);
+    });
+
+    test('should upload Nextcloud v2 chunks and assemble them with MOVE', async () => {
+      mockParameters({
+        resource: 'file',
+        operation: 'put',
+        path: '/files/alice/Videos/archive.mp4',
+        binaryPropertyName: 'data',
+        options: { uploadMode: 'nextcloud', chunkSize: 1, uploadId: 'job-1' },
+      });
+      mockHelpers.httpRequest.mockImplementation(async (opts: any) =>
+        opts.method === 'PROPFIND' ? { statusCode: 404, body: '' } : { statusCode: 201 },
+      );
+
+      const result = await (webDavNode as any).execute();
+      const calls = mockHelpers.httpRequest.mock.calls.map((c: any[]) => c[0]);
+      const uploadUrl = 'https://cloud.example.com/remote.php/dav/uploads/alice/job-1';
+      const target = 'https://cloud.example.com/remote.php/dav/files/alice/Videos/archive.mp4';
+      expect(calls.map((c: any) => `${c.method} ${c.url}`)).toEqual([
+        `PROPFIND ${uploadUrl}`,
+        `MKCOL ${uploadUrl}`,
+        `PUT ${uploadUrl}/1`,
+        `PUT ${uploadUrl}/2`,
+        `PUT ${uploadUrl}/3`,
+        `MOVE ${uploadUrl}/.file`,
+      ]);
+      expect(calls[2].body).toHaveLength(MB);
+      expect(calls[4].body).toHaveLength(0.5 * MB);
+      expect(calls[5].headers).toMatchObject({
+        Destination: target,
+        'OC-Total-Length': String(file.length),
+      });
+      expect(result[0][0].json).toMatchObject({
+        success: true,
+        uploadMode: 'nextcloud',
+        uploadId: 'job-1',
+        chunks: 3,
+        chunksUploaded: 3,
+        chunksSkipped: 0,
+      });
+    });
+
+    test('should skip chunks already on the server when resuming', async () => {
+      mockParameters({
+        resource: 'file',
+        operation: 'put',
+        path: '/files/alice/Videos/archive.mp4',
+        binaryPropertyName: 'data',
+        options: { uploadMode: 'nextcloud', chunkSize: 1, uploadId: 'job-1', resumeUpload: true },
+      });
+      mockHelpers.httpRequest.mockImplementation(async (opts: any) =>
+        opts.method === 'PROPFIND'
+          ? {
+              statusCode: 207,
+              body: `<d:multistatus xmlns:d="DAV:">
+<d:response><d:href>/remote.php/dav/uploads/alice/job-1/</d:href><d:propstat><d:prop><d:resourcetype><d:collection/></d:resourcetype></d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>
+<d:response><d:href>/remote.php/dav/uploads/alice/job-1/1</d:href><d:propstat><d:prop><d:getcontentlength>${MB}</d:getcontentlength><d:resourcetype/></d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>
+</d:multistatus>`,
+            }
+          : { statusCode: 201 },
+      );
+
+      const result = await (webDavNode as any).execute();
+      const methods = mockHelpers.httpRequest.mock.calls.map((c: any[]) => c[0].method);
+      expect(methods).toEqual(['PROPFIND', 'PUT', 'PUT', 'MOVE']);
+      expect(result[0][0].json).toMatchObject({ chunksUploaded: 2, chunksSkipped: 1 });
+    });
+
+    test('should send Content-Range chunks and retry a failed chunk', async () => {
+      jest.spyOn(global, 'setTimeout').mockImplementation(((fn: () => void) => {
+        fn();
+        return 0;
+      }) as any);
+      mockParameters({
+        resource: 'file',
+        operation: 'put',
+        path: '/archive.mp4',
+        binaryPropertyName: 'data',
+        options: { uploadMode: 'contentRange', chunkSize: 1, chunkRetries: 2 },
+      });
+      mockHelpers.httpRequest
+        .mockResolvedValueOnce({ statusCode: 201 })
+        .mockRejectedValueOnce({ code: 'ECONNRESET', message: 'socket hang up' })
+        .mockResolvedValue({ statusCode: 204 });
+
+      const result = await (webDavNode as any).execute();
+      const ranges = mockHelpers.httpRequest.mock.calls.map((c: any[]) => c[0].headers['Content-Range']);
+      expect(ranges).toEqual([
+        `bytes 0-${MB - 1}/${file.length}`,
+        `bytes ${MB}-${2 * MB - 1}/${file.length}`,
+        `bytes ${MB}-${2 * MB - 1}/${file.length}`,
+        `bytes ${2 * MB}-${file.length - 1}/${file.length}`,
+      ]);
+      expect(result[0][0].json).toMatchObject({ success: true, chunks: 3, retries: 1 });
+      jest.restoreAllMocks();
+    });
+
+    test('should not retry chunks that fail permanently', async () => {
+      mockParameters({
+        resource: 'file',
+        operation: 'put',
+        path: '/archive.mp4',
+        binaryPropertyName: 'data',
+        options: { uploadMode: 'contentRange', chunkSize: 1, chunkRetries: 3 },
+      });
+      mockHelpers.httpRequest.mockRejectedValue(Object.assign(new Error('Forbidden'), { statusCode: 403 }));
+
+      await expect((webDavNode as any).execute()).rejects.toThrow('HTTP 403');
+      expect(mockHelpers.httpRequest).toHaveBeenCalledTimes(1);
+    });
+
+    test('should check the target instead of repeating a MOVE whose response was lost', async () => {
+      mockParameters({
+        resource: 'file',
+        operation: 'put',
+        path: '/files/alice/Videos/archive.mp4',
+        binaryPropertyName: 'data',
+        options: { uploadMode: 'nextcloud', chunkSize: 1, uploadId: 'job-1', chunkRetries: 3 },
+      });
+      const sha256 = createHash('sha256').update(file).digest('hex');
+      mockHelpers.httpRequest.mockImplementation(async (opts: any) => {
+        if (opts.method === 'MOVE') return { statusCode: 504 };
+        if (opts.method !== 'PROPFIND') return { statusCode: 201 };
+        if (opts.headers.Depth === '1') return { statusCode: 404, body: '' };
+        return {
+          statusCode: 207,
+          body:
+            '<d:multistatus xmlns:d="DAV:" xmlns:oc="http://owncloud.org/ns"><d:response><d:href>/x</d:href><d:propstat><d:prop>' +
+            `<d:getcontentlength>${file.length}</d:getcontentlength><oc:checksums><oc:checksum>SHA256:${sha256}</oc:checksum></oc:checksums>` +
+            '</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response></d:multistatus>',
+        };
+      });
+
+      const result = await (webDavNode as any).execute();
+      const methods = mockHelpers.httpRequest.mock.calls.map((c: any[]) => c[0].method);
+      expect(methods).toEqual(['PROPFIND', 'MKCOL', 'PUT', 'PUT', 'PUT', 'MOVE', 'PROPFIND']);
+      expect(result[0][0].json).toMatchObject({ success: true, statusCode: 504, assemblyVerified: true, retries: 0 });
+    });
+
+    test('should only resume Content-Range uploads after a matching prefix', async () => {
+      const older = Buffer.alloc(1.5 * MB, 2);
+      const serve = (existing: Buffer) => async (opts: any) => {
+        if (opts.method === 'PROPFIND') {
+          return {
+            statusCode: 207,
+            body: `<d:multistatus xmlns:d="DAV:"><d:response><d:href>/archive.mp4</d:href><d:propstat><d:prop><d:getcontentlength>${existing.length}</d:getcontentlength></d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response></d:multistatus>`,
+          };
+        }
+        if (opts.method === 'GET') {
+          const [, from, to] = opts.headers.Range.match(/bytes=(\d+)-(\d+)/);
+          return { statusCode: 206, body: Readable.from([existing.subarray(Number(from), Number(to) + 1)]) };
+        }
+        return { statusCode: 204 };
+      };
+      mockParameters({
+        resource: 'file',
+        operation: 'put',
+        path: '/archive.mp4',
+        binaryPropertyName: 'data',
+        options: { uploadMode: 'contentRange', chunkSize: 1, resumeUpload: true },
+      });
+      const ranges = () =>
+        mockHelpers.httpRequest.mock.calls.filter((c: any[]) => c[0].method === 'PUT').map((c: any[]) => c[0].headers['Content-Range']);
+
+      // An older, different version of the file must not be kept as the prefix
+      mockHelpers.httpRequest.mockImplementation(serve(older));
+      let result = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls[1][0].headers.Range).toBe(`bytes=0-${MB - 1}`);
+      expect(ranges()[0]).toBe(`bytes 0-${MB - 1}/${file.length}`);
+      expect(result[0][0].json).toMatchObject({ chunksUploaded: 3, chunksSkipped: 0 });
+
+      mockHelpers.httpRequest.mockReset();
+      mockHelpers.httpRequest.mockImplementation(serve(file.subarray(0, 1.5 * MB)));
+      result = await (webDavNode as any).execute();
+      expect(ranges()[0]).toBe(`bytes ${MB}-${2 * MB - 1}/${file.length}`);
+      expect(result[0][0].json).toMatchObject({ chunksUploaded: 2, chunksSkipped: 1 });
+    });
+  });
+
+  describe('Streamed and Partial Download', () => {
+    beforeEach(() => {
+      mockGetCredentials.mockResolvedValue({ baseUrl: 'https://webdav.example.com' });
+      mockGetInputData.mockReturnValue([{ json: {} }]);
+    });
+
+    test('should request a stream and hand it to the binary data store', async () => {
+      mockParameters({ resource: 'file', operation: 'get', path: '/logs/app.log' });
+      const stream = Readable.from([Buffer.from('line 1\n')]);
+      mockHelpers.httpRequest.mockResolvedValue({
+        statusCode: 200,
+        body: stream,
+        headers: { 'content-type': 'text/plain', 'content-length': '7' },
+      });
+
+      const result = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls[0][0]).toMatchObject({ encoding: 'stream' });
+      expect(mockHelpers.prepareBinaryData).toHaveBeenCalledWith(stream, 'app.log', 'text/plain');
+      expect(result[0][0].json).toMatchObject({ contentLength: 7, statusCode: 200 });
+      expect(result[0][0].json).not.toHaveProperty('partial');
+    });
+
+    test('should send a suffix Range header and report 206 Partial Content', async () => {
+      mockParameters({
+        resource: 'file',
+        operation: 'get',
+        path: '/logs/app.log',
+        options: { range: 'suffix', rangeLength: 100 },
+      });
+      mockHelpers.httpRequest.mockResolvedValue({
+        statusCode: 206,
+        body: Readable.from([Buffer.alloc(100)]),
+        headers: { 'content-type': 'text/plain', 'content-range': 'bytes 900-999/1000' },
+      });
+
+      const result = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls[0][0].headers).toEqual({ Range: 'bytes=-100' });
+      expect(result[0][0].json).toMatchObject({
+        partial: true,
+        rangeStart: 900,
+        rangeEnd: 999,
+        totalSize: 1000,
+      });
+    });
+
+    test('should build open-ended byte ranges', async () => {
+      mockParameters({
+        resource: 'file',
+        operation: 'get',
+        path: '/logs/app.log',
+        options: { range: 'startEnd', rangeStart: 500, rangeEnd: -1 },
+      });
+      mockHelpers.httpRequest.mockResolvedValue({
+        statusCode: 200,
+        body: Buffer.from('full'),
+        headers: { 'content-type': 'text/plain' },
+      });
+
+      const result = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls[0][0].headers).toEqual({ Range: 'bytes=500-' });
+      // Servers that ignore Range answer 200 with the whole file
+      expect(result[0][0].json).toMatchObject({ partial: false, contentLength: 4 });
+    });
+
+    test('should reject invalid byte ranges before sending the request', async () => {
+      const download = (options: object) => {
+        mockParameters({ resource: 'file', operation: 'get', path: '/logs/app.log', options });
+        return (webDavNode as any).execute();
+      };
+
+      await expect(download({ range: 'startEnd', rangeStart: -5, rangeEnd: 10 })).rejects.toThrow('Range Start');
+      await expect(download({ range: 'startEnd', rangeStart: 0, rangeEnd: -2 })).rejects.toThrow('Range End');
+      await expect(download({ range: 'startEnd', rangeStart: 500, rangeEnd: 100 })).rejects.toThrow(
+        'Range End (100) must not be before Range Start (500)',
+      );
+      await expect(download({ range: 'suffix', rangeLength: 0 })).rejects.toThrow('Range Length');
+      expect(mockHelpers.httpRequest).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('List Folder', () => {
+    // Minimal Depth: 1 PROPFIND answers keyed by request URL
+    const entry = (href: string, opts: { dir?: boolean; size?: number; modified?: string } = {}) =>
+      `<d:response><d:href>${href}</d:href><d:propstat><d:prop>` +
+      (opts.dir ? '<d:resourcetype><d:collection/></d:resourcetype>' : '<d:resourcetype/>') +
+      (opts.size !== undefined ? `<d:getcontentlength>${opts.size}</d:getcontentlength>` : '') +
+      (opts.modified ? `<d:getlastmodified>${opts.modified}</d:getlastmodified>` : '') +
+      '</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>';
+    const tree: Record<string, string[]> = {
+      'https://cloud.example.com/remote.php/dav/files/alice/Docs': [
+        entry('/remote.php/dav/files/alice/Docs/', { dir: true }),
+        entry('/remote.php/dav/files/alice/Docs/a.pdf', { size: 10, modified: 'Mon, 01 Sep 2025 10:00:00 GMT' }),
+        entry('/remote.php/dav/files/alice/Docs/notes.txt', { size: 5, modified: 'Mon, 13 Oct 2025 10:00:00 GMT' }),
+        entry('/remote.php/dav/files/alice/Docs/Sub%20Folder/', { dir: true }),
+      ],
+      'https://cloud.example.com/remote.php/dav/files/alice/Docs/Sub%20Folder': [
+        entry('/remote.php/dav/files/alice/Docs/Sub%20Folder/', { dir: true }),
+        entry('/remote.php/dav/files/alice/Docs/Sub%20Folder/b.pdf', { size: 2000, modified: 'Wed, 15 Oct 2025 10:00:00 GMT' }),
+      ],
+    };
+
+    beforeEach(() => {
+      mockGetCredentials.mockResolvedValue({ baseUrl: 'https://cloud.example.com/remote.php/dav/files/alice' });
+      mockGetInputData.mockReturnValue([{ json: {} }]);
+      mockHelpers.httpRequest.mockImplementation(async (opts: any) => ({
+        statusCode: 207,
+        body: `<d:multistatus xmlns:d="DAV:">${(tree[opts.url] ?? []).join('')}</d:multistatus>`,
+      }));
+    });
+
+    test('should emit one item per resource of a single folder', async () => {
+      mockParameters({ resource: 'file', operation: 'list', path: '/Docs', returnAll: true });
+
+      const result = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest).toHaveBeenCalledTimes(1);
+      expect(mockHelpers.httpRequest.mock.calls[0][0].headers.Depth).toBe('1');
+      expect(result[0].map((i: any) => i.json.path)).toEqual([
+        '/Docs/a.pdf',
+        '/Docs/notes.txt',
+        '/Docs/Sub Folder',
+      ]);
+      expect(result[0][2]).toMatchObject({
+        json: { name: 'Sub Folder', isCollection: true, depth: 1 },
+        pairedItem: 0,
+      });
+    });
+
+    test('should walk subfolders and apply filters and limit', async () => {
+      mockParameters({
+        resource: 'file',
+        operation: 'list',
+        path: '/Docs',
+        recursive: true,
+        returnAll: true,
+        filters: { type: 'files', namePattern: '*.pdf', modifiedSince: '2025-10-01T00:00:00Z' },
+      });
+
+      const result = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest).toHaveBeenCalledTimes(2);
+      expect(result[0].map((i: any) => i.json)).toEqual([
+        expect.objectContaining({ path: '/Docs/Sub Folder/b.pdf', relativePath: 'Sub Folder/b.pdf', depth: 2 }),
+      ]);
+
+      mockHelpers.httpRequest.mockClear();
+      mockParameters({
+        resource: 'file',
+        operation: 'list',
+        path: '/Docs',
+        recursive: true,
+        limit: 2,
+        filters: { patternType: 'regex', namePattern: '\\.(pdf|txt)$' },
+      });
+      const limited = await (webDavNode as any).execute();
+      expect(limited[0]).toHaveLength(2);
+      expect(mockHelpers.httpRequest).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Sync Folder', () => {
+    const file = (href: string, etag: string, size: number, checksum?: string) =>
+      `<d:response><d:href>${href}</d:href><d:propstat><d:prop><d:resourcetype/>` +
+      `<d:getetag>${etag}</d:getetag><d:getcontentlength>${size}</d:getcontentlength>` +
+      (checksum ? `<oc:checksums><oc:checksum>${checksum}</oc:checksum></oc:checksums>` : '') +
+      '</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>';
+    const folder = (href: string) =>
+      `<d:response><d:href>${href}</d:href><d:propstat><d:prop><d:resourcetype><d:collection/></d:resourcetype>` +
+      '</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>';
+    let listings: Record<string, string[]>;
+    let staticData: Record<string, any>;
+
+    beforeEach(() => {
+      staticData = {};
+      (webDavNode as any).getWorkflowStaticData = jest.fn(() => staticData);
+      mockGetCredentials.mockResolvedValue({ baseUrl: 'https://dav.example.com' });
+      mockHelpers.httpRequest.mockImplementation(async (opts: any) =>
+        opts.method === 'PROPFIND'
+          ? listings[opts.url]
+            ? {
+                statusCode: 207,
+                body: `<d:multistatus xmlns:d="DAV:" xmlns:oc="http://owncloud.org/ns">${listings[opts.url].join('')}</d:multistatus>`,
+              }
+            : { statusCode: 404 }
+          : { statusCode: 201, body: Buffer.from('remote') },
+      );
+    });
+
+    test('should plan a one-way mirror of input binaries without executing a dry run', async () => {
+      listings = {
+        'https://dav.example.com/Backup': [
+          folder('/Backup/'),
+          // MD5 of the input content "test", so a.txt is known to be unchanged
+          file('/Backup/a.txt', '"e1"', 4, 'SHA1:a94a8fe5ccb19ba61c4c0873d391e987982fbbd3 MD5:098f6bcd4621d373cade4e832627b4f6'),
+          file('/Backup/old.txt', '"e2"', 3),
+        ],
+      };
+      mockGetInputData.mockReturnValue([
+        { json: {}, binary: { data: { fileName: 'a.txt', mimeType: 'text/plain' } } },
+        { json: { rel: 'new/b.txt' }, binary: { data: { fileName: 'b.txt', mimeType: 'text/plain' } } },
+      ]);
+      mockHelpers.getBinaryDataBuffer.mockResolvedValue(Buffer.from('test'));
+      mockParameters({
+        resource: 'file',
+        operation: 'sync',
+        syncSource: 'binary',
+        path: '/Backup',
+        syncMode: 'mirror',
+        dryRun: true,
+        syncOptions: { deleteExtraneous: true },
+      });
+
+      const result = await (webDavNode as any).execute();
+      expect(result[0].map((i: any) => [i.json.action, i.json.relativePath, i.json.executed])).toEqual([
+        ['upload', 'b.txt', false],
+        ['delete', 'old.txt', false],
+      ]);
+      expect(mockHelpers.httpRequest.mock.calls.every((c: any[]) => c[0].method === 'PROPFIND')).toBe(true);
+      expect(staticData).toEqual({});
+    });
+
+    test('should use the relative path field, create parents and remember the state', async () => {
+      listings = { 'https://dav.example.com/Backup': [folder('/Backup/')] };
+      mockGetInputData.mockReturnValue([
+        { json: { rel: 'new/b.txt' }, binary: { data: { fileName: 'b.txt', mimeType: 'text/plain' } } },
+      ]);
+      mockHelpers.getBinaryDataBuffer.mockResolvedValue(Buffer.from('test'));
+      mockParameters({
+        resource: 'file',
+        operation: 'sync',
+        syncSource: 'binary',
+        path: '/Backup',
+        syncMode: 'mirror',
+        syncOptions: { relativePathField: 'rel' },
+      });
+
+      const result = await (webDavNode as any).execute();
+      const writes = mockHelpers.httpRequest.mock.calls
+        .map((c: any[]) => c[0])
+        .filter((o: any) => o.method !== 'PROPFIND')
+        .map((o: any) => `${o.method} ${o.url}`);
+      expect(writes).toEqual([
+        'MKCOL https://dav.example.com/Backup/new',
+        'PUT https://dav.example.com/Backup/new/b.txt',
+      ]);
+      expect(result[0][0].json).toMatchObject({ action: 'upload', executed: true, success: true });
+      expect(Object.keys(staticData.syncState)).toEqual(['binary:->/Backup']);
+    });
+
+    test('should detect changes on both sides of a two-way remote sync', async () => {
+      listings = {
+        'https://dav.example.com/Source': [
+          folder('/Source/'),
+          file('/Source/changed-here.txt', '"s2"', 1),
+          file('/Source/both.txt', '"s2"', 1),
+          file('/Source/same.txt', '"s1"', 1),
+        ],
+        'https://dav.example.com/Target': [
+          folder('/Target/'),
+          file('/Target/changed-here.txt', '"t1"', 1),
+          file('/Target/both.txt', '"t2"', 1),
+          file('/Target/same.txt', '"t1"', 1),
+          file('/Target/removed-on-source.txt', '"t1"', 1),
+          file('/Target/new-on-target.txt', '"t1"', 1),
+        ],
+      };
+      staticData.syncState = {
+        'remote:/Source->/Target': {
+          'changed-here.txt': { source: '"s1"', target: '"t1"' },
+          'both.txt': { source: '"s1"', target: '"t1"' },
+          'same.txt': { source: '"s1"', target: '"t1"' },
+          'removed-on-source.txt': { source: '"s1"', target: '"t1"' },
+        },
+      };
+      mockGetInputData.mockReturnValue([{ json: {} }]);
+      mockParameters({
+        resource: 'file',
+        operation: 'sync',
+        syncSource: 'remote',
+        sourcePath: '/Source',
+        path: '/Target',
+        syncMode: 'twoWay',
+        dryRun: true,
+      });
+
+      const result = await (webDavNode as any).execute();
+      expect(result[0].map((i: any) => [i.json.action, i.json.relativePath, i.json.side])).toEqual([
+        ['conflict', 'both.txt', null],
+        ['upload', 'changed-here.txt', 'target'],
+        ['download', 'new-on-target.txt', 'source'],
+        ['delete', 'removed-on-source.txt', 'target'],
+      ]);
+    });
+
+    test('should upload or flag same-size files that cannot be proven equal without a baseline', async () => {
+      listings = {
+        'https://dav.example.com/Backup': [
+          folder('/Backup/'),
+          file('/Backup/a.txt', '"e1"', 4),
+          file('/Backup/b.txt', '"098f6bcd4621d373cade4e832627b4f6"', 4),
+          file('/Backup/c.txt', '"e3"', 4, 'MD5:00000000000000000000000000000000'),
+        ],
+      };
+      mockGetInputData.mockReturnValue(
+        ['a.txt', 'b.txt', 'c.txt'].map((fileName) => ({ json: {}, binary: { data: { fileName, mimeType: 'text/plain' } } })),
+      );
+      mockHelpers.getBinaryDataBuffer.mockResolvedValue(Buffer.from('test'));
+      mockParameters({ resource: 'file', operation: 'sync', syncSource: 'binary', path: '/Backup', syncMode: 'mirror', dryRun: true });
+
+      const mirrored = await (webDavNode as any).execute();
+      // b.txt has an ETag that is the MD5 of the content, c.txt a differing checksum
+      expect(mirrored[0].map((i: any) => [i.json.action, i.json.relativePath])).toEqual([
+        ['upload', 'a.txt'],
+        ['upload', 'c.txt'],
+      ]);
+
+      mockParameters({ resource: 'file', operation: 'sync', syncSource: 'binary', path: '/Backup', syncMode: 'twoWay', dryRun: true });
+      const twoWay = await (webDavNode as any).execute();
+      expect(twoWay[0].map((i: any) => [i.json.action, i.json.relativePath, i.json.reason])).toEqual([
+        ['conflict', 'a.txt', 'cannot be compared and no previous sync state'],
+        ['conflict', 'c.txt', 'cannot be compared and no previous sync state'],
+      ]);
+    });
+
+    test('should create a missing target folder before uploading into it', async () => {
+      listings = {};
+      mockGetInputData.mockReturnValue([
+        { json: { rel: 'sub/b.txt' }, binary: { data: { fileName: 'b.txt', mimeType: 'text/plain' } } },
+      ]);
+      mockHelpers.getBinaryDataBuffer.mockResolvedValue(Buffer.from('test'));
+      mockParameters({
+        resource: 'file',
+        operation: 'sync',
+        syncSource: 'binary',
+        path: '/Backup/2026',
+        syncMode: 'mirror',
+        syncOptions: { relativePathField: 'rel' },
+      });
+
+      const result = await (webDavNode as any).execute();
+      const writes = mockHelpers.httpRequest.mock.calls
+        .map((c: any[]) => c[0])
+        .filter((o: any) => o.method !== 'PROPFIND')
+        .map((o: any) => `${o.method} ${o.url}`);
+      expect(writes).toEqual([
+        'MKCOL https://dav.example.com/Backup',
+        'MKCOL https://dav.example.com/Backup/2026',
+        'MKCOL https://dav.example.com/Backup/2026/sub',
+        'PUT https://dav.example.com/Backup/2026/sub/b.txt',
+      ]);
+      expect(result[0][0].json).toMatchObject({ action: 'upload', executed: true, success: true });
+    });
+  });
+
+  describe('Get Changes', () => {
+    const changed = (href: string, etag: string) =>
+      `<d:response><d:href>${href}</d:href><d:propstat><d:prop><d:resourcetype/>` +
+      `<d:getetag>${etag}</d:getetag></d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>`;
+    const gone = (href: string) =>
+      `<d:response><d:href>${href}</d:href><d:status>HTTP/1.1 404 Not Found</d:status></d:response>`;
+    const multistatus = (token: string, ...responses: string[]) => ({
+      statusCode: 207,
+      body: `<d:multistatus xmlns:d="DAV:">${responses.join('')}<d:sync-token>${token}</d:sync-token></d:multistatus>`,
+    });
+    let staticData: Record<string, any>;
+
+    beforeEach(() => {
+      staticData = {};
+      (webDavNode as any).getWorkflowStaticData = jest.fn(() => staticData);
+      mockGetCredentials.mockResolvedValue({ baseUrl: 'https://dav.example.com' });
+      mockGetInputData.mockReturnValue([{ json: {} }]);
+    });
+
+    test('should start with a full listing and save the new token', async () => {
+      mockHelpers.httpRequest.mockResolvedValue(multistatus('tok-1', changed('/Docs/a.txt', '"a1"')));
+      mockParameters({ resource: 'file', operation: 'changes', path: '/Docs' });
+
+      const result = await (webDavNode as any).execute();
+      const request = mockHelpers.httpRequest.mock.calls[0][0];
+      expect(request.method).toBe('REPORT');
+      expect(request.headers.Depth).toBe('0');
+      expect(request.body).toContain('<D:sync-token></D:sync-token>');
+      expect(request.body).toContain('<D:sync-level>infinite</D:sync-level>');
+      expect(result[0][0].json).toMatchObject({
+        syncToken: 'tok-1',
+        previousToken: null,
+        fullListing: true,
+        added: ['/Docs/a.txt'],
+        modified: [],
+        removed: [],
+      });
+      expect(staticData.changesState['infinite:/Docs']).toEqual({ token: 'tok-1', known: { '/Docs/a.txt': '"a1"' } });
+    });
+
+    test('should classify changes since the saved token', async () => {
+      staticData.changesState = {
+        'infinite:/Docs': { token: 'tok-1', known: { '/Docs/a.txt': '"a1"', '/Docs/b.txt': '"b1"' } },
+      };
+      mockHelpers.httpRequest.mockResolvedValue(
+        multistatus('tok-2', changed('/Docs/a.txt', '"a2"'), changed('/Docs/c.txt', '"c1"'), gone('/Docs/b.txt')),
+      );
+      mockParameters({ resource: 'file', operation: 'changes', path: '/Docs', changesOptions: { limit: 10 } });
+
+      const result = await (webDavNode as any).execute();
+      const request = mockHelpers.httpRequest.mock.calls[0][0];
+      expect(request.body).toContain('<D:sync-token>tok-1</D:sync-token>');
+      expect(request.body).toContain('<D:nresults>10</D:nresults>');
+      expect(result[0][0].json).toMatchObject({
+        syncToken: 'tok-2',
+        previousToken: 'tok-1',
+        fullListing: false,
+        added: ['/Docs/c.txt'],
+        modified: ['/Docs/a.txt'],
+        removed: ['/Docs/b.txt'],
+      });
+      expect(staticData.changesState['infinite:/Docs'].known).toEqual({ '/Docs/a.txt': '"a2"', '/Docs/c.txt': '"c1"' });
+    });
+
+    test('should fall back to a full listing when the token is rejected', async () => {
+      staticData.changesState = {
+        'infinite:/Docs': { token: 'expired', known: { '/Docs/a.txt': '"a1"', '/Docs/b.txt': '"b1"' } },
+      };
+      mockHelpers.httpRequest
+        .mockResolvedValueOnce({
+          statusCode: 403,
+          body: '<d:error xmlns:d="DAV:"><d:valid-sync-token/></d:error>',
+        })
+        .mockResolvedValueOnce(multistatus('tok-9', changed('/Docs/a.txt', '"a1"'), changed('/Docs/c.txt', '"c1"')));
+      mockParameters({ resource: 'file', operation: 'changes', path: '/Docs' });
+
+      const result = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest).toHaveBeenCalledTimes(2);
+      expect(mockHelpers.httpRequest.mock.calls[1][0].body).toContain('<D:sync-token></D:sync-token>');
+      expect(result[0][0].json).toMatchObject({
+        syncToken: 'tok-9',
+        fullListing: true,
+        tokenRejected: true,
+        added: ['/Docs/c.txt'],
+        modified: [],
+        removed: ['/Docs/b.txt'],
+      });
+    });
+
+    test('should fail on other errors instead of falling back', async () => {
+      mockHelpers.httpRequest.mockResolvedValue({ statusCode: 403, body: '' });
+      mockParameters({ resource: 'file', operation: 'changes', path: '/Docs', syncCursor: 'tok-1' });
+
+      await expect((webDavNode as any).execute()).rejects.toThrow('HTTP 403');
+      expect(mockHelpers.httpRequest).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Search', () => {
+    const result = (href: string, size: number) =>
+      `<d:response><d:href>${href}</d:href><d:propstat><d:prop><d:resourcetype/>` +
+      `<d:getcontentlength>${size}</d:getcontentlength><d:getcontenttype>application/pdf</d:getcontenttype>` +
+      '</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>';
+
+    beforeEach(() => {
+      mockGetCredentials.mockResolvedValue({ baseUrl: 'https://cloud.example.com/remote.php/dav/files/alice' });
+      mockGetInputData.mockReturnValue([{ json: {} }]);
+      mockHelpers.httpRequest.mockResolvedValue({
+        statusCode: 207,
+        body: `<d:multistatus xmlns:d="DAV:">${result('/remote.php/dav/files/alice/Docs/a.pdf', 10)}${result('/remote.php/dav/files/alice/Docs/b.pdf', 20)}</d:multistatus>`,
+      });
+    });
+
+    test('should build a basic search and return one item per resource', async () => {
+      mockParameters({
+        resource: 'file',
+        operation: 'search',
+        path: '/Docs',
+        conditions: { nameLike: '%.pdf', minSize: 5, modifiedAfter: '2025-10-01T00:00:00.000Z', type: 'files' },
+        orderBy: { rule: [{ property: 'getlastmodified', direction: 'descending' }] },
+        limit: 10,
+        searchOptions: { searchEndpoint: '/remote.php/dav' },
+      });
+
+      const output = await (webDavNode as any).execute();
+      const request = mockHelpers.httpRequest.mock.calls[0][0];
+      expect(request.method).toBe('SEARCH');
+      expect(request.url).toBe('https://cloud.example.com/remote.php/dav');
+      expect(request.body).toContain('<D:href>/files/alice/Docs</D:href>');
+      expect(request.body).toContain('<D:depth>infinity</D:depth>');
+      expect(request.body).toContain(
+        '<D:where><D:and><D:like><D:prop><D:displayname/></D:prop><D:literal>%.pdf</D:literal></D:like>' +
+          '<D:gte><D:prop><D:getcontentlength/></D:prop><D:literal>5</D:literal></D:gte>' +
+          '<D:gt><D:prop><D:getlastmodified/></D:prop><D:literal>2025-10-01T00:00:00+00:00</D:literal></D:gt>' +
+          '<D:not><D:is-collection/></D:not></D:and></D:where>',
+      );
+      expect(request.body).toContain('<D:orderby><D:order><D:prop><D:getlastmodified/></D:prop><D:descending/></D:order></D:orderby>');
+      expect(request.body).toContain('<D:limit><D:nresults>10</D:nresults></D:limit>');
+      expect(output[0].map((i: any) => i.json.href)).toEqual([
+        '/remote.php/dav/files/alice/Docs/a.pdf',
+        '/remote.php/dav/files/alice/Docs/b.pdf',
+      ]);
+      expect(output[0][0].json).toMatchObject({ contentType: 'application/pdf', contentLength: 10, isCollection: false });
+    });
+
+    test('should send a raw search request to the Nextcloud DAV root by default', async () => {
+      const raw = '<d:searchrequest xmlns:d="DAV:"><d:basicsearch/></d:searchrequest>';
+      mockParameters({ resource: 'file', operation: 'search', path: '/', queryMode: 'raw', rawQuery: raw });
+
+      const output = await (webDavNode as any).execute();
+      const request = mockHelpers.httpRequest.mock.calls[0][0];
+      expect(request.url).toBe('https://cloud.example.com/remote.php/dav');
+      expect(request.body).toBe(raw);
+      expect(output[0]).toHaveLength(2);
+    });
+
+    test('should search the base URL of other servers and escape wildcards in Name Contains', async () => {
+      mockGetCredentials.mockResolvedValue({ baseUrl: 'https://dav.example.com/files' });
+      mockParameters({ resource: 'file', operation: 'search', path: '/Docs', conditions: { nameContains: '50%_off' } });
+
+      await (webDavNode as any).execute();
+      const request = mockHelpers.httpRequest.mock.calls[0][0];
+      expect(request.url).toBe('https://dav.example.com/files/');
+      expect(request.body).toContain('<D:href>/Docs</D:href>');
+      expect(request.body).toContain('<D:literal>%50\\%\\_off%</D:literal>');
+    });
+  });
+
+  describe('Get Quota', () => {
+    const quotaResponse = (props: string) => ({
+      statusCode: 207,
+      body:
+        '<d:multistatus xmlns:d="DAV:"><d:response><d:href>/Docs/</d:href><d:propstat>' +
+        `<d:prop>${props}</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response></d:multistatus>`,
+    });
+
+    beforeEach(() => {
+      mockGetCredentials.mockResolvedValue({ baseUrl: 'https://dav.example.com' });
+      mockGetInputData.mockReturnValue([{ json: {} }]);
+      mockParameters({ resource: 'file', operation: 'quota', path: '/Docs' });
+    });
+
+    test('should return used, available, total and percentage', async () => {
+      mockHelpers.httpRequest.mockResolvedValue(
+        quotaResponse('<d:quota-used-bytes>250</d:quota-used-bytes><d:quota-available-bytes>750</d:quota-available-bytes>'),
+      );
+
+      const result = await (webDavNode as any).execute();
+      const request = mockHelpers.httpRequest.mock.calls[0][0];
+      expect(request.headers.Depth).toBe('0');
+      expect(request.body).toContain('<D:quota-available-bytes/>');
+      expect(result[0][0].json).toMatchObject({
+        quota: 'limited',
+        used: 250,
+        available: 750,
+        total: 1000,
+        percentUsed: 25,
+      });
+    });
+
+    test('should report unlimited quotas without a total', async () => {
+      mockHelpers.httpRequest.mockResolvedValue(
+        quotaResponse('<d:quota-used-bytes>250</d:quota-used-bytes><d:quota-available-bytes>-3</d:quota-available-bytes>'),
+      );
+
+      const result = await (webDavNode as any).execute();
+      expect(result[0][0].json).toMatchObject({
+        quota: 'unlimited',
+        used: 250,
+        available: null,
+        total: null,
+        percentUsed: null,
+        rawAvailable: -3,
+      });
+    });
+
+    test('should handle missing quota properties', async () => {
+      mockHelpers.httpRequest.mockResolvedValue({
+        statusCode: 207,
+        body:
+          '<d:multistatus xmlns:d="DAV:"><d:response><d:href>/Docs/</d:href><d:propstat>' +
+          '<d:prop><d:quota-used-bytes/><d:quota-available-bytes/></d:prop>' +
+          '<d:status>HTTP/1.1 404 Not Found</d:status></d:propstat></d:response></d:multistatus>',
+      });
+
+      const result = await (webDavNode as any).execute();
+      expect(result[0][0].json).toMatchObject({ quota: 'unknown', used: null, available: null, total: null });
+    });
+  });
+
+  describe('Create Parents', () => {
+    // /reports already exists, everything below it is new; /notes.txt is a file
+    const mkcolStatus = (url: string) => (url.endsWith('/reports') || url.endsWith('/notes.txt') ? 405 : 201);
+    const resource = (url: string) =>
+      `<d:multistatus xmlns:d="DAV:"><d:response><d:href>${new URL(url).pathname}</d:href><d:propstat><d:prop>` +
+      (url.endsWith('/reports') ? '<d:resourcetype><d:collection/></d:resourcetype>' : '<d:resourcetype/>') +
+      '</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response></d:multistatus>';
+
+    beforeEach(() => {
+      mockGetCredentials.mockResolvedValue({ baseUrl: 'https://dav.example.com' });
+      mockHelpers.httpRequest.mockImplementation(async (opts: any) =>
+        opts.method === 'PROPFIND'
+          ? { statusCode: 207, body: resource(opts.url) }
+          : { statusCode: opts.method === 'MKCOL' ? mkcolStatus(opts.url) : 201 },
+      );
+    });
+
+    test('should create every missing directory of the path', async () => {
+      mockGetInputData.mockReturnValue([{ json: {} }]);
+      mockParameters({ resource: 'file', operation: 'mkcol', path: '/reports/2026/10', createParents: true });
+
+      const result = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls.map((c: any[]) => `${c[0].method} ${c[0].url}`)).toEqual([
+        'MKCOL https://dav.example.com/reports',
+        'PROPFIND https://dav.example.com/reports',
+        'MKCOL https://dav.example.com/reports/2026',
+        'MKCOL https://dav.example.com/reports/2026/10',
+      ]);
+      expect(result[0][0].json).toEqual({
+        success: true,
+        statusCode: 201,
+        path: '/reports/2026/10',
+        created: ['/reports/2026', '/reports/2026/10'],
+        alreadyExisted: false,
+      });
+    });
+
+    test('should treat an existing directory as success', async () => {
+      mockGetInputData.mockReturnValue([{ json: {} }]);
+      mockParameters({ resource: 'file', operation: 'mkcol', path: '/reports/', createParents: true });
+
+      const result = await (webDavNode as any).execute();
+      expect(result[0][0].json).toMatchObject({ success: true, statusCode: 405, created: [], alreadyExisted: true });
+    });
+
+    test('should fail when a file exists where a folder is needed', async () => {
+      mockGetInputData.mockReturnValue([{ json: {} }]);
+      mockParameters({ resource: 'file', operation: 'mkcol', path: '/notes.txt/sub', createParents: true });
+
+      await expect((webDavNode as any).execute()).rejects.toThrow(
+        'Cannot create folder "/notes.txt": a resource that is not a folder already exists at this path',
+      );
+      expect(mockHelpers.httpRequest).toHaveBeenCalledTimes(2);
+    });
+
+    test('should fail on other MKCOL errors', async () => {
+      mockGetInputData.mockReturnValue([{ json: {} }]);
+      mockHelpers.httpRequest.mockResolvedValue({ statusCode: 403 });
+      mockParameters({ resource: 'file', operation: 'mkcol', path: '/private/x', createParents: true });
+
+      await expect((webDavNode as any).execute()).rejects.toThrow('HTTP 403');
+    });
+
+    test('should create the parent folders before uploading', async () => {
+      mockGetInputData.mockReturnValue([{ json: {}, binary: { data: { mimeType: 'text/csv' } } }]);
+      mockParameters({
+        resource: 'file',
+        operation: 'put',
+        path: '/reports/2026/10/19.csv',
+        binaryPropertyName: 'data',
+        options: { createParents: true },
+      });
+
+      const result = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls.map((c: any[]) => `${c[0].method} ${c[0].url}`)).toEqual([
+        'MKCOL https://dav.example.com/reports',
+        'PROPFIND https://dav.example.com/reports',
+        'MKCOL https://dav.example.com/reports/2026',
+        'MKCOL https://dav.example.com/reports/2026/10',
+        'PUT https://dav.example.com/reports/2026/10/19.csv',
+      ]);
+      expect(result[0][0].json).toMatchObject({ success: true, createdFolders: ['/reports/2026', '/reports/2026/10'] });
+    });
+  });
+
+  describe('Conditional Requests', () => {
+    beforeEach(() => {
+      mockGetCredentials.mockResolvedValue({ baseUrl: 'https://dav.example.com' });
+      mockGetInputData.mockReturnValue([{ json: {}, binary: { data: { mimeType: 'text/plain' } } }]);
+    });
+
+    test('should report notModified instead of downloading', async () => {
+      const body = Readable.from([]);
+      const destroy = jest.spyOn(body, 'destroy');
+      mockHelpers.httpRequest.mockResolvedValue({ statusCode: 304, headers: { etag: '"abc"' }, body });
+      mockParameters({
+        resource: 'file',
+        operation: 'get',
+        path: '/report.pdf',
+        options: { ifNoneMatch: 'abc', ifModifiedSince: '2025-10-01T00:00:00.000Z' },
+      });
+
+      const result = await (webDavNode as any).execute();
+      const request = mockHelpers.httpRequest.mock.calls[0][0];
+      expect(request.headers['If-None-Match']).toBe('"abc"');
+      expect(request.headers['If-Modified-Since']).toBe('Wed, 01 Oct 2025 00:00:00 GMT');
+      expect(request.ignoreHttpStatusErrors).toBe(true);
+      expect(result[0][0].json).toEqual({
+        path: '/report.pdf',
+        success: false,
+        statusCode: 304,
+        etag: '"abc"',
+        notModified: true,
+        preconditionFailed: false,
+      });
+      expect(result[0][0].binary).toBeUndefined();
+      expect(destroy).toHaveBeenCalled();
+      expect(mockHelpers.prepareBinaryData).not.toHaveBeenCalled();
+    });
+
+    test('should report preconditionFailed when the upload target changed', async () => {
+      mockHelpers.httpRequest.mockResolvedValue({ statusCode: 412 });
+      mockParameters({
+        resource: 'file',
+        operation: 'put',
+        path: '/report.pdf',
+        binaryPropertyName: 'data',
+        options: { ifMatch: '"abc", W/"def"' },
+      });
+
+      const result = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls[0][0].headers['If-Match']).toBe('"abc", W/"def"');
+      expect(result[0][0].json).toMatchObject({
+        success: false,
+        statusCode: 412,
+        notModified: false,
+        preconditionFailed: true,
+      });
+    });
+
+    test('should add the condition flags to successful requests', async () => {
+      mockHelpers.httpRequest.mockResolvedValue({ statusCode: 204 });
+      mockParameters({ resource: 'file', operation: 'delete', path: '/a.txt', options: { ifMatch: '*' } });
+
+      const result = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls[0][0].headers['If-Match']).toBe('*');
+      expect(result[0][0].json).toEqual({
+        success: true,
+        statusCode: 204,
+        path: '/a.txt',
+        notModified: false,
+        preconditionFailed: false,
+      });
+    });
+
+    test('should still fail on other errors', async () => {
+      mockHelpers.httpRequest.mockResolvedValue({ statusCode: 404 });
+      mockParameters({
+        resource: 'file',
+        operation: 'move',
+        path: '/a.txt',
+        destination: '/b.txt',
+        options: { ifUnmodifiedSince: '2025-10-01' },
+      });
+
+      await expect((webDavNode as any).execute()).rejects.toThrow('HTTP 404');
+    });
+
+    test('should not send conditions without options', async () => {
+      mockHelpers.httpRequest.mockResolvedValue({ statusCode: 204 });
+      mockParameters({ resource: 'file', operation: 'copy', path: '/a.txt', destination: '/b.txt' });
+
+      const result = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls[0][0].ignoreHttpStatusErrors).toBeUndefined();
+      expect(result[0][0].json).not.toHaveProperty('notModified');
+    });
+  });
+
+  describe('Text and JSON Content', () => {
+    beforeEach(() => {
+      mockGetCredentials.mockResolvedValue({ baseUrl: 'https://dav.example.com' });
+      mockHelpers.httpRequest.mockResolvedValue({ statusCode: 201 });
+    });
+
+    test('should upload text with content type and charset', async () => {
+      mockGetInputData.mockReturnValue([{ json: {} }]);
+      mockParameters({
+        resource: 'file',
+        operation: 'put',
+        path: '/export.csv',
+        inputDataMode: 'text',
+        fileContent: 'name\nJosé',
+        contentType: 'text/csv',
+        charset: 'iso-8859-1',
+      });
+
+      const result = await (webDavNode as any).execute();
+      const request = mockHelpers.httpRequest.mock.calls[0][0];
+      expect(request.headers['Content-Type']).toBe('text/csv; charset=iso-8859-1');
+      expect(request.body).toEqual(Buffer.from('name\nJosé', 'latin1'));
+      expect(mockHelpers.getBinaryDataBuffer).not.toHaveBeenCalled();
+      expect(result[0][0].json).toMatchObject({ success: true, contentType: 'text/csv; charset=iso-8859-1' });
+    });
+
+    test('should upload the item JSON', async () => {
+      mockGetInputData.mockReturnValue([{ json: { id: 1, tags: ['a'] } }]);
+      mockParameters({ resource: 'file', operation: 'put', path: '/item.json', inputDataMode: 'json' });
+
+      await (webDavNode as any).execute();
+      const request = mockHelpers.httpRequest.mock.calls[0][0];
+      expect(request.headers['Content-Type']).toBe('application/json; charset=utf-8');
+      expect(JSON.parse(request.body.toString('utf8'))).toEqual({ id: 1, tags: ['a'] });
+    });
+
+    test('should return a downloaded JSON file in the item', async () => {
+      mockGetInputData.mockReturnValue([{ json: {} }]);
+      mockHelpers.httpRequest.mockResolvedValue({
+        statusCode: 200,
+        headers: { 'content-type': 'application/json; charset=utf-8' },
+        body: Readable.from([Buffer.from('{"ok":'), Buffer.from('true}')]),
+      });
+      mockParameters({ resource: 'file', operation: 'get', path: '/config.json', options: { downloadAs: 'json' } });
+
+      const result = await (webDavNode as any).execute();
+      expect(result[0][0].json).toMatchObject({ path: '/config.json', contentLength: 11, data: { ok: true } });
+      expect(result[0][0].binary).toBeUndefined();
+      expect(mockHelpers.prepareBinaryData).not.toHaveBeenCalled();
+    });
+
+    test('should decode downloaded text with the server charset', async () => {
+      mockGetInputData.mockReturnValue([{ json: {} }]);
+      mockHelpers.httpRequest.mockResolvedValue({
+        statusCode: 200,
+        headers: { 'content-type': 'text/plain; charset=ISO-8859-1' },
+        body: Buffer.from('Café', 'latin1'),
+      });
+      mockParameters({ resource: 'file', operation: 'get', path: '/notes.txt', options: { downloadAs: 'text' } });
+
+      const result = await (webDavNode as any).execute();
+      expect(result[0][0].json.data).toBe('Café');
+    });
+
+    test('should fail on invalid JSON', async () => {
+      mockGetInputData.mockReturnValue([{ json: {} }]);
+      mockHelpers.httpRequest.mockResolvedValue({ statusCode: 200, headers: {}, body: Buffer.from('nope') });
+      mockParameters({ resource: 'file', operation: 'get', path: '/broken.json', options: { downloadAs: 'json' } });
+
+      await expect((webDavNode as any).execute()).rejects.toThrow('is not valid JSON');
+    });
+  });
+
+  describe('Batching', () => {
+    beforeEach(() => {
+      mockGetCredentials.mockResolvedValue({ baseUrl: 'https://dav.example.com' });
+      mockGetInputData.mockReturnValue([0, 1, 2, 3, 4].map((i) => ({ json: { path: `/f${i}` } })));
+      mockGetNodeParameter.mockImplementation((name: string, itemIndex: number, fallback?: any) => {
+        const params: Record<string, any> = {
+          resource: 'file',
+          operation: 'mkcol',
+          path: `/f${itemIndex}`,
+          batching: { maxParallel: 2 },
+        };
+        return name in params ? params[name] : fallback;
+      });
+    });
+
+    test('should limit parallel requests and keep the input order', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      mockHelpers.httpRequest.mockImplementation(async (opts: any) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        // Finish later items first to make sure the output order does not depend on timing
+        await new Promise((resolve) => setTimeout(resolve, opts.url.endsWith('0') ? 20 : 1));
+        running--;
+        return { statusCode: 201 };
+      });
+
+      const result = await (webDavNode as any).execute();
+      expect(maxRunning).toBe(2);
+      expect(result[0].map((i: any) => [i.json.path, i.pairedItem])).toEqual([
+        ['/f0', { item: 0 }],
+        ['/f1', { item: 1 }],
+        ['/f2', { item: 2 }],
+        ['/f3', { item: 3 }],
+        ['/f4', { item: 4 }],
+      ]);
+    });
+
+    test('should keep failed items in place with continueOnFail', async () => {
+      (webDavNode as any).continueOnFail = jest.fn(() => true);
+      mockHelpers.httpRequest.mockImplementation(async (opts: any) => {
+        if (opts.url.endsWith('/f2')) throw Object.assign(new Error('conflict'), { statusCode: 409 });
+        return { statusCode: 201 };
+      });
+
+      const result = await (webDavNode as any).execute();
+      expect(result[0]).toHaveLength(5);
+      expect(result[0][2]).toEqual({ json: { error: expect.stringContaining('HTTP 409') }, pairedItem: 2 });
+      expect(result[0][3].json.path).toBe('/f3');
+    });
+  });
+
+  describe('Retries', () => {
+    beforeEach(() => {
+      mockGetCredentials.mockResolvedValue({ baseUrl: 'https://dav.example.com' });
+      mockGetInputData.mockReturnValue([{ json: {} }]);
+    });
+
+    test('should retry transient failures and honor Retry-After', async () => {
+      mockParameters({
+        resource: 'file',
+        operation: 'delete',
+        path: '/Reports',
+        retry: { maxRetries: 3, initialDelay: 1, maxDelay: 5 },
+      });
+      const setTimeoutSpy = jest.spyOn(global, 'setTimeout');
+      mockHelpers.httpRequest
+        .mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+        .mockRejectedValueOnce(
+          Object.assign(new Error('Too Many Requests'), {
+            statusCode: 429,
+            response: { headers: { 'retry-after': '120' } },
+          }),
+        )
+        .mockResolvedValueOnce({ statusCode: 204 });
+
+      const result = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest).toHaveBeenCalledTimes(3);
+      // Retry-After asks for two minutes, which is capped by the configured max delay
+      expect(setTimeoutSpy).toHaveBeenLastCalledWith(expect.any(Function), 5);
+      expect(result[0][0].json).toMatchObject({ success: true, path: '/Reports', httpRetries: 2 });
+      setTimeoutSpy.mockRestore();
+    });
+
+    test('should give up after the configured number of retries', async () => {
+      mockParameters({ resource: 'file', operation: 'delete', path: '/Reports', retry: { maxRetries: 1, initialDelay: 1 } });
+      mockHelpers.httpRequest.mockRejectedValue(Object.assign(new Error('Bad Gateway'), { statusCode: 502 }));
+
+      await expect((webDavNode as any).execute()).rejects.toThrow('HTTP 502');
+      expect(mockHelpers.httpRequest).toHaveBeenCalledTimes(2);
+    });
+
+    test('should not retry other errors or when retries are not configured', async () => {
+      mockParameters({ resource: 'file', operation: 'mkcol', path: '/Reports' });
+      mockHelpers.httpRequest.mockRejectedValueOnce(Object.assign(new Error('Service Unavailable'), { statusCode: 503 }));
+      await expect((webDavNode as any).execute()).rejects.toThrow('HTTP 503');
+
+      mockParameters({ resource: 'file', operation: 'mkcol', path: '/Reports', retry: { maxRetries: 3 } });
+      mockHelpers.httpRequest.mockRejectedValueOnce(Object.assign(new Error('Conflict'), { statusCode: 409 }));
+      await expect((webDavNode as any).execute()).rejects.toThrow('HTTP 409');
+      expect(mockHelpers.httpRequest).toHaveBeenCalledTimes(2);
+    });
+
+    test('should only retry non-idempotent methods that were refused with Retry-After', async () => {
+      mockParameters({ resource: 'file', operation: 'mkcol', path: '/Reports', retry: { maxRetries: 3, initialDelay: 1 } });
+      mockHelpers.httpRequest.mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }));
+      await expect((webDavNode as any).execute()).rejects.toThrow('socket hang up');
+      mockHelpers.httpRequest.mockRejectedValueOnce(Object.assign(new Error('Gateway Timeout'), { statusCode: 504 }));
+      await expect((webDavNode as any).execute()).rejects.toThrow('HTTP 504');
+      expect(mockHelpers.httpRequest).toHaveBeenCalledTimes(2);
+
+      mockHelpers.httpRequest.mockReset();
+      mockHelpers.httpRequest
+        .mockRejectedValueOnce(
+          Object.assign(new Error('Service Unavailable'), { statusCode: 503, response: { headers: { 'retry-after': '0' } } }),
+        )
+        .mockResolvedValueOnce({ statusCode: 201 });
+      const result = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest).toHaveBeenCalledTimes(2);
+      expect(result[0][0].json).toMatchObject({ success: true, httpRetries: 1 });
+    });
+  });
+
+  describe('Trash', () => {
+    beforeEach(() => {
+      mockGetCredentials.mockResolvedValue({
+        baseUrl: 'https://cloud.example.com/remote.php/dav/files/alice',
+        username: 'alice@example.com',
+      });
+      mockGetInputData.mockReturnValue([{ json: {} }]);
+    });
+
+    test('should list trash items with original location and deletion time', async () => {
+      mockParameters({ resource: 'trash', operation: 'listTrash', returnAll: true });
+      mockHelpers.httpRequest.mockResolvedValue({
+        statusCode: 207,
+        body:
+          '<d:multistatus xmlns:d="DAV:" xmlns:nc="http://nextcloud.org/ns" xmlns:oc="http://owncloud.org/ns">' +
+          '<d:response><d:href>/remote.php/dav/trashbin/alice/trash/</d:href><d:propstat><d:prop>' +
+          '<d:resourcetype><d:collection/></d:resourcetype></d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>' +
+          '<d:response><d:href>/remote.php/dav/trashbin/alice/trash/Q3%20report.pdf.d1760000000</d:href><d:propstat><d:prop>' +
+          '<nc:trashbin-filename>Q3 report.pdf</nc:trashbin-filename>' +
+          '<nc:trashbin-original-location>Finance/Q3 report.pdf</nc:trashbin-original-location>' +
+          '<nc:trashbin-deletion-time>1760000000</nc:trashbin-deletion-time>' +
+          '<d:getcontentlength>2048</d:getcontentlength><d:resourcetype/><oc:fileid>812</oc:fileid>' +
+          '</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response></d:multistatus>',
+      });
+
+      const result = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls[0][0]).toMatchObject({
+        method: 'PROPFIND',
+        url: 'https://cloud.example.com/remote.php/dav/trashbin/alice/trash',
+        headers: { Depth: '1' },
+      });
+      expect(result[0]).toHaveLength(1);
+      expect(result[0][0].json).toEqual({
+        trashItem: 'Q3 report.pdf.d1760000000',
+        name: 'Q3 report.pdf',
+        originalLocation: 'Finance/Q3 report.pdf',
+        deletedAt: '2025-10-09T08:53:20.000Z',
+        deletionTime: 1760000000,
+        isCollection: false,
+        size: 2048,
+        contentType: null,
+        fileId: '812',
+      });
+    });
+
+    test('should restore an item by moving it to the restore collection', async () => {
+      mockParameters({ resource: 'trash', operation: 'restoreTrash', trashItem: 'Q3 report.pdf.d1760000000' });
+      mockHelpers.httpRequest.mockResolvedValue({ statusCode: 201 });
+
+      const result = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls[0][0]).toMatchObject({
+        method: 'MOVE',
+        url: 'https://cloud.example.com/remote.php/dav/trashbin/alice/trash/Q3%20report.pdf.d1760000000',
+        headers: {
+          Destination: 'https://cloud.example.com/remote.php/dav/trashbin/alice/restore/Q3%20report.pdf.d1760000000',
+        },
+      });
+      expect(result[0][0].json).toEqual({ success: true, statusCode: 201, trashItem: 'Q3 report.pdf.d1760000000' });
+    });
+
+    test('should delete single items and empty the trash for another user', async () => {
+      // Some responses only set "status"
+      mockHelpers.httpRequest.mockResolvedValue({ status: 204 });
+
+      mockParameters({ resource: 'trash', operation: 'deleteTrash', userId: 'bob', trashItem: '/trash/old.txt.d1' });
+      await (webDavNode as any).execute();
+      mockParameters({ resource: 'trash', operation: 'emptyTrash', userId: 'bob' });
+      const result = await (webDavNode as any).execute();
+
+      expect(mockHelpers.httpRequest.mock.calls.map((c: any[]) => [c[0].method, c[0].url])).toEqual([
+        ['DELETE', 'https://cloud.example.com/remote.php/dav/trashbin/bob/trash/old.txt.d1'],
+        ['DELETE', 'https://cloud.example.com/remote.php/dav/trashbin/bob/trash'],
+      ]);
+      expect(result[0][0].json).toEqual({ success: true, statusCode: 204 });
+    });
+  });
+
+  describe('Versions', () => {
+    const fileIdResponse = {
+      statusCode: 207,
+      body:
+        '<d:multistatus xmlns:d="DAV:" xmlns:oc="http://owncloud.org/ns"><d:response>' +
+        '<d:href>/remote.php/dav/files/alice/Documents/contract.docx</d:href><d:propstat><d:prop>' +
+        '<oc:fileid>4711</oc:fileid></d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response></d:multistatus>',
+    };
+
+    beforeEach(() => {
+      mockGetCredentials.mockResolvedValue({ baseUrl: 'https://cloud.example.com/remote.php/dav/files/alice' });
+      mockGetInputData.mockReturnValue([{ json: {} }]);
+    });
+
+    test('should list Nextcloud versions by file ID', async () => {
+      mockParameters({ resource: 'version', operation: 'listVersions', path: '/Documents/contract.docx' });
+      mockHelpers.httpRequest.mockResolvedValueOnce(fileIdResponse).mockResolvedValueOnce({
+        statusCode: 207,
+        body:
+          '<d:multistatus xmlns:d="DAV:" xmlns:nc="http://nextcloud.org/ns">' +
+          '<d:response><d:href>/remote.php/dav/versions/alice/versions/4711/</d:href><d:propstat><d:prop>' +
+          '<d:resourcetype><d:collection/></d:resourcetype></d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>' +
+          '<d:response><d:href>/remote.php/dav/versions/alice/versions/4711/1760000000</d:href><d:propstat><d:prop>' +
+          '<d:getlastmodified>Thu, 09 Oct 2025 08:53:20 GMT</d:getlastmodified><d:getcontentlength>512</d:getcontentlength>' +
+          '<d:getetag>"v1"</d:getetag><nc:version-label>Signed</nc:version-label><d:resourcetype/>' +
+          '</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response></d:multistatus>',
+      });
+
+      const result = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls[0][0]).toMatchObject({
+        method: 'PROPFIND',
+        url: 'https://cloud.example.com/remote.php/dav/files/alice/Documents/contract.docx',
+        headers: { Depth: '0' },
+      });
+      expect(mockHelpers.httpRequest.mock.calls[1][0]).toMatchObject({
+        method: 'PROPFIND',
+        url: 'https://cloud.example.com/remote.php/dav/versions/alice/versions/4711',
+        headers: { Depth: '1' },
+      });
+      expect(result[0].map((i: any) => i.json)).toEqual([
+        {
+          path: '/Documents/contract.docx',
+          versionId: '1760000000',
+          label: 'Signed',
+          author: null,
+          lastModified: 'Thu, 09 Oct 2025 08:53:20 GMT',
+          size: 512,
+          contentType: null,
+          etag: '"v1"',
+        },
+      ]);
+    });
+
+    test('should download and restore a Nextcloud version', async () => {
+      mockHelpers.prepareBinaryData = jest.fn(async (data: any, fileName: string) => ({ data: 'x', fileName }));
+      mockParameters({
+        resource: 'version',
+        operation: 'downloadVersion',
+        path: '/Documents/contract.docx',
+        versionId: '1760000000',
+      });
+      mockHelpers.httpRequest
+        .mockResolvedValueOnce(fileIdResponse)
+        .mockResolvedValueOnce({ statusCode: 200, headers: { 'content-length': '512' }, body: Buffer.from('old') });
+      const download = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls[1][0]).toMatchObject({
+        method: 'GET',
+        url: 'https://cloud.example.com/remote.php/dav/versions/alice/versions/4711/1760000000',
+      });
+      expect(download[0][0].binary.data.fileName).toBe('contract.docx');
+      expect(download[0][0].json).toMatchObject({ versionId: '1760000000', contentLength: 512, statusCode: 200 });
+
+      mockParameters({
+        resource: 'version',
+        operation: 'restoreVersion',
+        path: '/Documents/contract.docx',
+        versionId: '1760000000',
+      });
+      mockHelpers.httpRequest.mockResolvedValueOnce(fileIdResponse).mockResolvedValueOnce({ statusCode: 201 });
+      const restore = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls[3][0]).toMatchObject({
+        method: 'MOVE',
+        url: 'https://cloud.example.com/remote.php/dav/versions/alice/versions/4711/1760000000',
+        headers: { Destination: 'https://cloud.example.com/remote.php/dav/versions/alice/restore/target' },
+      });
+      expect(restore[0][0].json).toEqual({
+        success: true,
+        statusCode: 201,
+        path: '/Documents/contract.docx',
+        versionId: '1760000000',
+      });
+    });
+
+    test('should use the version-tree REPORT and UPDATE for RFC 3253 servers', async () => {
+      mockParameters({ resource: 'version', operation: 'listVersions', path: '/repo/spec.txt', versionApi: 'deltaV' });
+      mockHelpers.httpRequest.mockResolvedValueOnce({
+        statusCode: 207,
+        body:
+          '<D:multistatus xmlns:D="DAV:"><D:response><D:href>/his/23/ver/1</D:href><D:propstat><D:prop>' +
+          '<D:version-name>V1</D:version-name><D:creator-displayname>Fred</D:creator-displayname>' +
+          '</D:prop><D:status>HTTP/1.1 200 OK</D:status></D:propstat></D:response></D:multistatus>',
+      });
+      const list = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls[0][0]).toMatchObject({
+        method: 'REPORT',
+        url: 'https://cloud.example.com/remote.php/dav/files/alice/repo/spec.txt',
+        headers: { Depth: '0' },
+      });
+      expect(mockHelpers.httpRequest.mock.calls[0][0].body).toContain('<D:version-tree xmlns:D="DAV:">');
+      expect(list[0][0].json).toMatchObject({ versionId: '/his/23/ver/1', versionName: 'V1', creator: 'Fred' });
+
+      mockParameters({
+        resource: 'version',
+        operation: 'restoreVersion',
+        path: '/repo/spec.txt',
+        versionApi: 'deltaV',
+        versionId: 'https://elsewhere.example.org/his/23/ver/1',
+      });
+      mockHelpers.httpRequest.mockResolvedValueOnce({ statusCode: 207 });
+      await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls[1][0]).toMatchObject({
+        method: 'UPDATE',
+        url: 'https://cloud.example.com/remote.php/dav/files/alice/repo/spec.txt',
+      });
+      expect(mockHelpers.httpRequest.mock.calls[1][0].body).toContain('<D:href>/his/23/ver/1</D:href>');
+    });
+  });
+
+  describe('Checksums', () => {
+    const content = Buffer.from('compliance');
+    const sha256 = createHash('sha256').update(content).digest('hex');
+    const md5 = createHash('md5').update(content).digest('hex');
+    const sha1 = createHash('sha1').update(content).digest('hex');
+
+    beforeEach(() => {
+      mockGetCredentials.mockResolvedValue({ baseUrl: 'https://dav.example.com' });
+      mockGetInputData.mockReturnValue([{ json: {}, binary: { data: { mimeType: 'application/pdf' } } }]);
+      mockHelpers.getBinaryDataBuffer.mockResolvedValue(content);
+    });
+
+    test('should send OC-Checksum and Content-MD5 headers on upload', async () => {
+      mockParameters({ resource: 'file', operation: 'put', path: '/policy.pdf', options: { checksumAlgorithm: 'md5' } });
+      mockHelpers.httpRequest.mockResolvedValue({ statusCode: 201 });
+
+      const result = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls[0][0].headers).toMatchObject({
+        'OC-Checksum': `MD5:${md5}`,
+        'Content-MD5': Buffer.from(md5, 'hex').toString('base64'),
+      });
+      expect(result[0][0].json).toMatchObject({ checksum: md5, checksumAlgorithm: 'md5' });
+    });
+
+    test('should return the checksum of chunked uploads without sending it when disabled', async () => {
+      mockParameters({
+        resource: 'file',
+        operation: 'put',
+        path: '/policy.pdf',
+        options: { uploadMode: 'contentRange', sendChecksum: false },
+      });
+      mockHelpers.httpRequest.mockResolvedValue({ statusCode: 201 });
+
+      const result = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls[0][0].headers).not.toHaveProperty('OC-Checksum');
+      expect(result[0][0].json).toMatchObject({ checksum: sha256, checksumAlgorithm: 'sha256' });
+    });
+
+    test('should verify downloads against the checksum stored on the server', async () => {
+      mockParameters({ resource: 'file', operation: 'get', path: '/policy.pdf', options: { verifyChecksum: true } });
+      mockHelpers.httpRequest
+        .mockResolvedValueOnce({ statusCode: 200, body: content, headers: { 'content-type': 'application/pdf' } })
+        .mockResolvedValueOnce({
+          statusCode: 207,
+          body:
+            '<d:multistatus xmlns:d="DAV:" xmlns:oc="http://owncloud.org/ns"><d:response><d:href>/policy.pdf</d:href>' +
+            `<d:propstat><d:prop><oc:checksums><oc:checksum>SHA1:${sha1} MD5:${md5} ADLER32:0a1b2c3d</oc:checksum>` +
+            '</oc:checksums></d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response></d:multistatus>',
+        });
+
+      const result = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls[1][0]).toMatchObject({ method: 'PROPFIND', headers: { Depth: '0' } });
+      expect(result[0][0].json).toMatchObject({
+        checksum: sha256,
+        checksumAlgorithm: 'sha256',
+        checksumVerified: true,
+        expectedChecksum: `SHA1:${sha1}`,
+      });
+    });
+
+    test('should fail or flag a download that does not match the expected checksum', async () => {
+      const wrong = 'SHA256:' + '0'.repeat(64);
+      mockHelpers.httpRequest.mockResolvedValue({
+        statusCode: 200,
+        body: content,
+        headers: { 'content-type': 'application/pdf' },
+      });
+
+      mockParameters({ resource: 'file', operation: 'get', path: '/policy.pdf', options: { expectedChecksum: wrong } });
+      await expect((webDavNode as any).execute()).rejects.toThrow('Checksum mismatch for "/policy.pdf"');
+
+      mockParameters({
+        resource: 'file',
+        operation: 'get',
+        path: '/policy.pdf',
+        options: { expectedChecksum: wrong, checksumMismatch: 'flag' },
+      });
+      const result = await (webDavNode as any).execute();
+      expect(result[0][0].json).toMatchObject({ checksum: sha256, checksumVerified: false });
+
+      mockParameters({ resource: 'file', operation: 'get', path: '/policy.pdf', options: { expectedChecksum: sha256 } });
+      const verified = await (webDavNode as any).execute();
+      expect(verified[0][0].json.checksumVerified).toBe(true);
+    });
+  });
+
+  describe('ACL', () => {
+    const aclResponse = {
+      statusCode: 207,
+      body:
+        '<d:multistatus xmlns:d="DAV:" xmlns:cal="urn:ietf:params:xml:ns:caldav"><d:response><d:href>/projects/apollo/</d:href>' +
+        '<d:propstat><d:prop>' +
+        '<d:owner><d:href>/principals/users/alice</d:href></d:owner>' +
+        '<d:current-user-privilege-set><d:privilege><d:read/></d:privilege><d:privilege><d:write/></d:privilege>' +
+        '<d:privilege><cal:read-free-busy/></d:privilege></d:current-user-privilege-set>' +
+        '<d:acl>' +
+        '<d:ace><d:principal><d:href>/principals/users/alice</d:href></d:principal>' +
+        '<d:grant><d:privilege><d:all/></d:privilege></d:grant><d:protected/></d:ace>' +
+        '<d:ace><d:principal><d:href>/principals/groups/staff</d:href></d:principal>' +
+        '<d:grant><d:privilege><d:read/></d:privilege></d:grant></d:ace>' +
+        '<d:ace><d:principal><d:href>/principals/users/bob</d:href></d:principal>' +
+        '<d:grant><d:privilege><d:read/></d:privilege></d:grant></d:ace>' +
+        '<d:ace><d:invert><d:principal><d:authenticated/></d:principal></d:invert>' +
+        '<d:deny><d:privilege><d:write/></d:privilege></d:deny>' +
+        '<d:inherited><d:href>/projects/</d:href></d:inherited></d:ace>' +
+        '</d:acl></d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response></d:multistatus>',
+    };
+
+    beforeEach(() => {
+      mockGetCredentials.mockResolvedValue({ baseUrl: 'https://dav.example.com' });
+      mockGetInputData.mockReturnValue([{ json: {} }]);
+    });
+
+    test('should return the ACL, owner and current user privileges as JSON', async () => {
+      mockParameters({ resource: 'file', operation: 'getAcl', path: '/projects/apollo' });
+      mockHelpers.httpRequest.mockResolvedValue(aclResponse);
+
+      const result = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls[0][0]).toMatchObject({ method: 'PROPFIND', headers: { Depth: '0' } });
+      expect(result[0][0].json).toMatchObject({
+        path: '/projects/apollo',
+        owner: '/principals/users/alice',
+        currentUserPrivileges: ['read', 'write', 'cal:read-free-busy'],
+        statusCode: 207,
+      });
+      expect(result[0][0].json.acl).toEqual([
+        { principal: '/principals/users/alice', invert: false, grant: ['all'], deny: [], protected: true, inherited: null },
+        { principal: '/principals/groups/staff', invert: false, grant: ['read'], deny: [], protected: false, inherited: null },
+        { principal: '/principals/users/bob', invert: false, grant: ['read'], deny: [], protected: false, inherited: null },
+        { principal: 'authenticated', invert: true, grant: [], deny: ['write'], protected: false, inherited: '/projects/' },
+      ]);
+    });
+
+    test('should merge new entries with the editable existing ones', async () => {
+      mockParameters({
+        resource: 'file',
+        operation: 'setAcl',
+        path: '/projects/apollo',
+        aces: {
+          ace: [
+            { principalType: 'href', principal: '/principals/groups/staff', action: 'grant', privileges: ['read', 'write-content', 'bind'] },
+            { principalType: 'unauthenticated', action: 'deny', privileges: ['all'] },
+          ],
+        },
+      });
+      mockHelpers.httpRequest.mockResolvedValueOnce(aclResponse).mockResolvedValueOnce({ statusCode: 200, body: '' });
+
+      const result = await (webDavNode as any).execute();
+      const request = mockHelpers.httpRequest.mock.calls[1][0];
+      expect(request).toMatchObject({ method: 'ACL', url: 'https://dav.example.com/projects/apollo' });
+      expect(request.body).toBe(`<?xml version="1.0" encoding="utf-8"?>
+<D:acl xmlns:D="DAV:">
+	<D:ace>
+		<D:principal><D:href>/principals/groups/staff</D:href></D:principal>
+		<D:grant><D:privilege><D:read/></D:privilege><D:privilege><D:write-content/></D:privilege><D:privilege><D:bind/></D:privilege></D:grant>
+	</D:ace>
+	<D:ace>
+		<D:principal><D:unauthenticated/></D:principal>
+		<D:deny><D:privilege><D:all/></D:privilege></D:deny>
+	</D:ace>
+	<D:ace>
+		<D:principal><D:href>/principals/users/bob</D:href></D:principal>
+		<D:grant><D:privilege><D:read/></D:privilege></D:grant>
+	</D:ace>
+</D:acl>`);
+      expect(result[0][0].json).toMatchObject({ success: true, statusCode: 200 });
+      expect(result[0][0].json.acl).toHaveLength(3);
+    });
+
+    test('should replace the ACL and report the failed precondition', async () => {
+      mockParameters({
+        resource: 'file',
+        operation: 'setAcl',
+        path: '/projects/apollo',
+        aclMode: 'replace',
+        aces: { ace: [{ principalType: 'owner', action: 'grant', privileges: ['all'] }] },
+      });
+      mockHelpers.httpRequest.mockResolvedValue({
+        statusCode: 403,
+        body: '<d:error xmlns:d="DAV:"><d:no-protected-ace-conflict/></d:error>',
+      });
+
+      await expect((webDavNode as any).execute()).rejects.toThrow(
+        'HTTP 403 for WebDAV setAcl on file: "/projects/apollo". Failed precondition: no-protected-ace-conflict.',
+      );
+      expect(mockHelpers.httpRequest).toHaveBeenCalledTimes(1);
+      expect(mockHelpers.httpRequest.mock.calls[0][0].body).toContain(
+        '<D:principal><D:property><D:owner/></D:property></D:principal>',
+      );
+    });
+  });
+
+  describe('Shares', () => {
+    const ocs = (data: any, statusCode = 200, meta: any = { status: 'ok', statuscode: 200 }) => ({
+      statusCode,
+      body: { ocs: { meta, data } },
+    });
+    const linkShare = {
+      id: 42,
+      share_type: 3,
+      path: '/Documents/offer.pdf',
+      item_type: 'file',
+      permissions: 1,
+      share_with: '$2y$10$hash',
+      url: 'https://cloud.example.com/nextcloud/s/AbCdEf',
+      token: 'AbCdEf',
+      expiration: '2026-11-01 00:00:00',
+      label: 'Customer',
+      note: '',
+      uid_owner: 'alice',
+      stime: 1760000000,
+    };
+
+    beforeEach(() => {
+      mockGetCredentials.mockResolvedValue({ baseUrl: 'https://cloud.example.com/nextcloud/remote.php/dav/files/alice' });
+      mockGetInputData.mockReturnValue([{ json: {} }]);
+    });
+
+    test('should create a public link with password and expiry and return its URL', async () => {
+      mockParameters({
+        resource: 'share',
+        operation: 'createShare',
+        path: 'Documents/offer.pdf',
+        shareType: 3,
+        shareOptions: { password: 's3cret', expireDate: '2026-11-01T00:00:00.000Z', permissions: [1], label: 'Customer' },
+      });
+      mockHelpers.httpRequest.mockResolvedValue(ocs(linkShare));
+
+      const result = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls[0][0]).toMatchObject({
+        method: 'POST',
+        url: 'https://cloud.example.com/nextcloud/ocs/v2.php/apps/files_sharing/api/v1/shares',
+        qs: { format: 'json' },
+        headers: { 'OCS-APIRequest': 'true' },
+        body: {
+          path: '/Documents/offer.pdf',
+          shareType: 3,
+          permissions: 1,
+          expireDate: '2026-11-01',
+          password: 's3cret',
+          label: 'Customer',
+        },
+      });
+      expect(result[0][0].json).toMatchObject({
+        id: '42',
+        shareType: 'publicLink',
+        url: 'https://cloud.example.com/nextcloud/s/AbCdEf',
+        shareWith: null,
+        passwordProtected: true,
+        createdAt: '2025-10-09T08:53:20.000Z',
+      });
+    });
+
+    test('should never retry share creation', async () => {
+      mockParameters({
+        resource: 'share',
+        operation: 'createShare',
+        path: 'Documents/offer.pdf',
+        shareType: 3,
+        retry: { maxRetries: 3, initialDelay: 1 },
+      });
+      mockHelpers.httpRequest.mockRejectedValueOnce(
+        Object.assign(new Error('Service Unavailable'), { statusCode: 503, response: { headers: { 'retry-after': '0' } } }),
+      );
+
+      await expect((webDavNode as any).execute()).rejects.toThrow();
+      expect(mockHelpers.httpRequest).toHaveBeenCalledTimes(1);
+    });
+
+    test('should list the shares of a path as separate items', async () => {
+      mockParameters({ resource: 'share', operation: 'listShares', path: '/Documents/offer.pdf' });
+      mockHelpers.httpRequest.mockResolvedValue(
+        ocs([linkShare, { id: 43, share_type: 1, share_with: 'staff', share_with_displayname: 'Staff', permissions: 19 }]),
+      );
+
+      const result = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls[0][0].qs).toEqual({
+        path: '/Documents/offer.pdf',
+        reshares: 'false',
+        subfiles: 'false',
+        format: 'json',
+      });
+      expect(result[0].map((i: any) => [i.json.id, i.json.shareType, i.json.shareWith])).toEqual([
+        ['42', 'publicLink', null],
+        ['43', 'group', 'staff'],
+      ]);
+    });
+
+    test('should update and delete shares and surface OCS errors', async () => {
+      mockParameters({
+        resource: 'share',
+        operation: 'updateShare',
+        shareId: '42',
+        updateFields: { permissions: [1, 2, 4], publicUpload: true },
+      });
+      mockHelpers.httpRequest.mockResolvedValueOnce(ocs({ ...linkShare, permissions: 7 }));
+      const updated = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls[0][0]).toMatchObject({
+        method: 'PUT',
+        url: 'https://cloud.example.com/nextcloud/ocs/v2.php/apps/files_sharing/api/v1/shares/42',
+        body: { permissions: 7, publicUpload: 'true' },
+      });
+      expect(updated[0][0].json.permissions).toBe(7);
+
+      mockParameters({ resource: 'share', operation: 'deleteShare', shareId: '42' });
+      mockHelpers.httpRequest.mockResolvedValueOnce(ocs([]));
+      const deleted = await (webDavNode as any).execute();
+      expect(deleted[0][0].json).toEqual({ success: true, shareId: '42' });
+
+      mockHelpers.httpRequest.mockResolvedValueOnce(
+        ocs([], 404, { status: 'failure', statuscode: 404, message: 'Wrong share ID, share does not exist' }),
+      );
+      await expect((webDavNode as any).execute()).rejects.toThrow(
+        'OCS share request failed with HTTP 404 (OCS 404). Wrong share ID, share does not exist',
+      );
+    });
+  });
+
+  describe('Archives', () => {
+    const entry = (href: string, opts: { dir?: boolean; size?: number } = {}) =>
+      `<d:response><d:href>${href}</d:href><d:propstat><d:prop>` +
+      (opts.dir ? '<d:resourcetype><d:collection/></d:resourcetype>' : '<d:resourcetype/>') +
+      (opts.size !== undefined ? `<d:getcontentlength>${opts.size}</d:getcontentlength>` : '') +
+      '<d:getlastmodified>Mon, 13 Oct 2025 10:00:00 GMT</d:getlastmodified>' +
+      '</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>';
+    const base = 'https://cloud.example.com/remote.php/dav/files/alice';
+    const tree: Record<string, string[]> = {
+      [`${base}/Docs`]: [
+        entry('/remote.php/dav/files/alice/Docs/', { dir: true }),
+        entry('/remote.php/dav/files/alice/Docs/a.txt', { size: 5 }),
+        entry('/remote.php/dav/files/alice/Docs/skip.tmp', { size: 3 }),
+        entry('/remote.php/dav/files/alice/Docs/Sub%20Folder/', { dir: true }),
+      ],
+      [`${base}/Docs/Sub%20Folder`]: [
+        entry('/remote.php/dav/files/alice/Docs/Sub%20Folder/', { dir: true }),
+        entry('/remote.php/dav/files/alice/Docs/Sub%20Folder/b.txt', { size: 6 }),
+      ],
+    };
+    const contents: Record<string, string> = {
+      [`${base}/Docs/a.txt`]: 'alpha',
+      [`${base}/Docs/skip.tmp`]: 'tmp',
+      [`${base}/Docs/Sub%20Folder/b.txt`]: 'bravo!',
+    };
+
+    beforeEach(() => {
+      mockGetCredentials.mockResolvedValue({ baseUrl: base });
+      mockGetInputData.mockReturnValue([{ json: {} }]);
+      mockHelpers.httpRequest.mockImplementation(async (opts: any) =>
+        opts.method === 'GET'
+          ? { statusCode: 200, body: Buffer.from(contents[opts.url]) }
+          : { statusCode: 207, body: `<d:multistatus xmlns:d="DAV:">${(tree[opts.url] ?? []).join('')}</d:multistatus>` },
+      );
+      mockHelpers.prepareBinaryData.mockImplementation(async (data: Buffer, fileName: string, mimeType: string) => ({
+        data: data.toString('base64'),
+        fileName,
+        mimeType,
+      }));
+    });
+
+    test('should compress a folder into a zip without excluded files', async () => {
+      mockParameters({ resource: 'file', operation: 'compress', path: '/Docs', archiveOptions: { exclude: '*.tmp' } });
+
+      const result = await (webDavNode as any).execute();
+      expect(result[0][0].json).toMatchObject({
+        path: '/Docs',
+        format: 'zip',
+        fileName: 'Docs.zip',
+        fileCount: 2,
+        files: ['a.txt', 'Sub Folder/b.txt'],
+        totalSize: 11,
+      });
+      const binary = result[0][0].binary.data;
+      expect(binary.mimeType).toBe('application/zip');
+      const entries = readZip(Buffer.from(binary.data, 'base64'));
+      expect(entries.map((e) => [e.name, e.extract().toString()])).toEqual([
+        ['a.txt', 'alpha'],
+        ['Sub Folder/b.txt', 'bravo!'],
+      ]);
+      expect(entries[0].modified.getUTCFullYear()).toBe(2025);
+    });
+
+    test('should write tar.gz archives and enforce the size cap', async () => {
+      mockParameters({
+        resource: 'file',
+        operation: 'compress',
+        path: '/Docs',
+        archiveFormat: 'tarGz',
+        archiveOptions: { include: 'Sub Folder/**' },
+      });
+      const result = await (webDavNode as any).execute();
+      const tar = gunzipSync(Buffer.from(result[0][0].binary.data.data, 'base64'));
+      expect(tar.subarray(0, 16).toString().replace(/\0+$/, '')).toBe('Sub Folder/b.txt');
+      expect(tar.subarray(512, 518).toString()).toBe('bravo!');
+      expect(result[0][0].binary.data.fileName).toBe('Docs.tar.gz');
+
+      mockHelpers.httpRequest.mockClear();
+      mockParameters({ resource: 'file', operation: 'compress', path: '/Docs', archiveOptions: { maxSize: 0.00001 } });
+      await expect((webDavNode as any).execute()).rejects.toThrow('exceeds the maximum total size');
+      expect(mockHelpers.httpRequest.mock.calls.every(([opts]: any) => opts.method !== 'GET')).toBe(true);
+    });
+
+    test('should extract a zip into a folder, creating collections once', async () => {
+      const zip = createZip([
+        { name: 'top.txt', data: Buffer.from('top') },
+        { name: 'a/b/deep.txt', data: Buffer.from('deep') },
+        { name: 'a/other.txt', data: Buffer.from('other') },
+      ]);
+      mockHelpers.getBinaryDataBuffer.mockResolvedValue(zip);
+      mockHelpers.httpRequest.mockImplementation(async (opts: any) =>
+        opts.method === 'PROPFIND'
+          ? { statusCode: 207, body: '<d:multistatus xmlns:d="DAV:"><d:response><d:href>/Target/</d:href><d:propstat><d:prop><d:resourcetype><d:collection/></d:resourcetype></d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response></d:multistatus>' }
+          : { statusCode: opts.method === 'MKCOL' && opts.url.endsWith('/Target') ? 405 : opts.url.endsWith('other.txt') ? 412 : 201 },
+      );
+      mockParameters({ resource: 'file', operation: 'extract', path: '/Target', archiveOptions: { overwrite: false } });
+
+      const result = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls.map(([opts]: any) => `${opts.method} ${opts.url.slice(base.length)}`)).toEqual([
+        'MKCOL /Target',
+        'PROPFIND /Target',
+        'MKCOL /Target/a',
+        'MKCOL /Target/a/b',
+        'PUT /Target/top.txt',
+        'PUT /Target/a/b/deep.txt',
+        'PUT /Target/a/other.txt',
+      ]);
+      expect(mockHelpers.httpRequest.mock.calls[4][0].headers['If-None-Match']).toBe('*');
+      expect(mockHelpers.httpRequest.mock.calls[4][0].body.toString()).toBe('top');
+      expect(result[0][0].json).toEqual({
+        path: '/Target',
+        fileCount: 2,
+        totalSize: 12,
+        uploaded: ['/Target/top.txt', '/Target/a/b/deep.txt'],
+        skipped: ['/Target/a/other.txt'],
+        createdFolders: ['/Target/a', '/Target/a/b'],
+      });
+    });
+
+    test('should reject archive entries that escape the target folder', async () => {
+      mockHelpers.getBinaryDataBuffer.mockResolvedValue(createZip([{ name: '../evil.txt', data: Buffer.from('x') }]));
+      mockParameters({ resource: 'file', operation: 'extract', path: '/Target' });
+
+      await expect((webDavNode as any).execute()).rejects.toThrow('Unsafe path in zip archive: ../evil.txt');
+      expect(mockHelpers.httpRequest).not.toHaveBeenCalled();
+    });
+
+    test('should reject percent-encoded traversal and keep escapes in names literal', async () => {
+      mockParameters({ resource: 'file', operation: 'extract', path: '/Target' });
+      for (const name of ['%2e%2e/evil.txt', 'a/%2E/b.txt', 'a%2f..%2fb.txt', 'a%5c..%5cb.txt', 'a%00.txt']) {
+        mockHelpers.getBinaryDataBuffer.mockResolvedValue(createZip([{ name, data: Buffer.from('x') }]));
+        await expect((webDavNode as any).execute()).rejects.toThrow(`Unsafe path in zip archive: ${name}`);
+      }
+      expect(mockHelpers.httpRequest).not.toHaveBeenCalled();
+
+      mockHelpers.getBinaryDataBuffer.mockResolvedValue(createZip([{ name: 'q/50%25 off.txt', data: Buffer.from('x') }]));
+      mockHelpers.httpRequest.mockResolvedValue({ statusCode: 201 });
+      await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls.map(([opts]: any) => opts.url.slice(base.length))).toEqual([
+        '/Target',
+        '/Target/q',
+        '/Target/q/50%2525%20off.txt',
+      ]);
+    });
+
+    test('should extract entries written with a data descriptor', async () => {
+      // Streaming writers set flag bit 3 and leave CRC and sizes zero in the local header
+      const zip = createZip([{ name: 'streamed.txt', data: Buffer.from('streamed content') }]);
+      zip.writeUInt16LE(zip.readUInt16LE(6) | 0x0008, 6);
+      zip.fill(0, 14, 26);
+      const central = zip.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+      zip.writeUInt16LE(zip.readUInt16LE(central + 8) | 0x0008, central + 8);
+      mockHelpers.getBinaryDataBuffer.mockResolvedValue(zip);
+      mockHelpers.httpRequest.mockResolvedValue({ statusCode: 201 });
+      mockParameters({ resource: 'file', operation: 'extract', path: '/Target' });
+
+      const result = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls[1][0].body.toString()).toBe('streamed content');
+      expect(result[0][0].json).toMatchObject({ fileCount: 1, uploaded: ['/Target/streamed.txt'] });
+    });
+  });
+
+  describe('Transfer', () => {
+    const entry = (href: string, opts: { dir?: boolean; size?: number } = {}) =>
+      `<d:response><d:href>${href}</d:href><d:propstat><d:prop>` +
+      (opts.dir ? '<d:resourcetype><d:collection/></d:resourcetype>' : '<d:resourcetype/>') +
+      (opts.size !== undefined ? `<d:getcontentlength>${opts.size}</d:getcontentlength>` : '') +
+      '<d:getlastmodified>Mon, 13 Oct 2025 10:00:00 GMT</d:getlastmodified>' +
+      '</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>';
+    const source = 'https://old.example.com/remote.php/webdav';
+    const target = 'https://new.example.com/remote.php/dav/files/alice';
+    const multistatus = (...entries: string[]) => ({
+      statusCode: 207,
+      body: `<d:multistatus xmlns:d="DAV:">${entries.join('')}</d:multistatus>`,
+    });
+    let putResponses: Record<string, any>;
+
+    beforeEach(() => {
+      mockGetCredentials.mockImplementation(async (type: string) => ({ baseUrl: type === 'davTargetApi' ? target : source }));
+      mockGetInputData.mockReturnValue([{ json: {} }]);
+      putResponses = {};
+      mockHelpers.httpRequest.mockImplementation(async (opts: any) => {
+        if (opts.method === 'PROPFIND' && opts.headers.Depth === '0') {
+          return multistatus(entry('/remote.php/webdav/Projects/', { dir: true }));
+        }
+        if (opts.method === 'PROPFIND' && opts.url === `${source}/Projects`) {
+          return multistatus(
+            entry('/remote.php/webdav/Projects/', { dir: true }),
+            entry('/remote.php/webdav/Projects/plan.txt', { size: 4 }),
+            entry('/remote.php/webdav/Projects/Old%20Files/', { dir: true }),
+          );
+        }
+        if (opts.method === 'PROPFIND') {
+          return multistatus(
+            entry('/remote.php/webdav/Projects/Old%20Files/', { dir: true }),
+            entry('/remote.php/webdav/Projects/Old%20Files/notes.md', { size: 5 }),
+          );
+        }
+        if (opts.method === 'GET') {
+          return { statusCode: 200, headers: { 'content-length': '4', 'content-type': 'text/plain' }, body: Readable.from([Buffer.from('data')]) };
+        }
+        if (opts.method === 'PUT') return putResponses[opts.url] ?? { statusCode: 201, headers: { 'x-oc-mtime': 'accepted' } };
+        return { statusCode: opts.method === 'MKCOL' && opts.url === `${target}/Archive` ? 405 : 201 };
+      });
+    });
+
+    test('should stream a folder tree to the target server and preserve modification times', async () => {
+      mockParameters({ resource: 'file', operation: 'transfer', path: '/Projects', targetPath: '/Archive/2025' });
+
+      const result = await (webDavNode as any).execute();
+      const calls = mockHelpers.httpRequest.mock.calls.map(([opts]: any) => `${opts.method} ${opts.url}`);
+      expect(calls.filter((c: string) => /^(MKCOL|PUT|DELETE) /.test(c))).toEqual([
+        `MKCOL ${target}/Archive`,
+        `MKCOL ${target}/Archive/2025`,
+        `MKCOL ${target}/Archive/2025/Old%20Files`,
+        `PUT ${target}/Archive/2025/plan.txt`,
+        `PUT ${target}/Archive/2025/Old%20Files/notes.md`,
+      ]);
+      const put = mockHelpers.httpRequest.mock.calls.find(([opts]: any) => opts.method === 'PUT')[0];
+      expect(put.body).toBeInstanceOf(Readable);
+      expect(put.headers).toEqual({ 'Content-Type': 'text/plain', 'Content-Length': '4', 'X-OC-Mtime': '1760349600' });
+      expect(result[0].map((i: any) => i.json)).toEqual([
+        expect.objectContaining({ sourcePath: '/Projects/plan.txt', targetPath: '/Archive/2025/plan.txt', success: true, mtimePreserved: true }),
+        expect.objectContaining({ relativePath: 'Old Files/notes.md', success: true, statusCode: 201, sourceDeleted: false }),
+      ]);
+    });
+
+    test('should leave out Content-Length when the download is compressed or chunked', async () => {
+      const downloads = [
+        { 'content-length': '3', 'content-encoding': 'gzip', 'content-type': 'text/plain' },
+        { 'transfer-encoding': 'chunked', 'content-type': 'text/plain' },
+      ];
+      const inner = mockHelpers.httpRequest.getMockImplementation();
+      mockHelpers.httpRequest.mockImplementation(async (opts: any) =>
+        opts.method === 'GET'
+          ? { statusCode: 200, headers: downloads.shift(), body: Readable.from([Buffer.from('data')]) }
+          : await inner(opts),
+      );
+      mockParameters({ resource: 'file', operation: 'transfer', path: '/Projects', targetPath: '/Archive', transferOptions: { preserveModified: false } });
+
+      await (webDavNode as any).execute();
+      const puts = mockHelpers.httpRequest.mock.calls.filter(([opts]: any) => opts.method === 'PUT').map(([opts]: any) => opts.headers);
+      expect(puts).toEqual([{ 'Content-Type': 'text/plain' }, { 'Content-Type': 'text/plain' }]);
+    });
+
+    test('should skip existing files and only remove fully moved folders', async () => {
+      putResponses[`${target}/Archive/plan.txt`] = { statusCode: 412 };
+      mockParameters({
+        resource: 'file',
+        operation: 'transfer',
+        path: '/Projects',
+        targetPath: '/Archive',
+        transferMode: 'move',
+        transferOptions: { overwrite: false, preserveModified: false },
+      });
+
+      const result = await (webDavNode as any).execute();
+      const put = mockHelpers.httpRequest.mock.calls.find(([opts]: any) => opts.method === 'PUT')[0];
+      expect(put.headers['If-None-Match']).toBe('*');
+      expect(put.headers['X-OC-Mtime']).toBeUndefined();
+      expect(result[0].map((i: any) => [i.json.relativePath, i.json.skipped, i.json.sourceDeleted])).toEqual([
+        ['plan.txt', true, false],
+        ['Old Files/notes.md', false, true],
+      ]);
+      const deletes = mockHelpers.httpRequest.mock.calls.filter(([opts]: any) => opts.method === 'DELETE');
+      expect(deletes.map(([opts]: any) => opts.url)).toEqual([`${source}/Projects/Old%20Files/notes.md`]);
+    });
+
+    test('should report failed files without stopping the transfer', async () => {
+      putResponses[`${target}/Archive/plan.txt`] = { statusCode: 507 };
+      mockParameters({ resource: 'file', operation: 'transfer', path: '/Projects', targetPath: '/Archive', transferMode: 'move' });
+
+      const result = await (webDavNode as any).execute();
+      expect(result[0][0].json).toMatchObject({ success: false, statusCode: 507, error: expect.stringContaining('HTTP 507') });
+      expect(result[0][1].json).toMatchObject({ success: true, sourceDeleted: true });
+      expect(mockHelpers.httpRequest.mock.calls.some(([opts]: any) => opts.method === 'DELETE' && opts.url === `${source}/Projects`)).toBe(false);
+    });
+  });
+
+  describe('Multi-Status', () => {
+    beforeEach(() => {
+      mockGetCredentials.mockResolvedValue({ baseUrl: 'https://webdav.example.com/dav' });
+      mockGetInputData.mockReturnValue([{ json: {} }]);
+    });
+
+    test('should report the failed members of a partly deleted collection', async () => {
+      mockHelpers.httpRequest.mockResolvedValue({
+        statusCode: 207,
+        body: `<?xml version="1.0" encoding="utf-8"?>
+<d:multistatus xmlns:d="DAV:">
+  <d:response>
+    <d:href>/dav/Projects/locked%20file.txt</d:href>
+    <d:status>HTTP/1.1 423 Locked</d:status>
+    <d:error><d:lock-token-submitted><d:href>/dav/Projects/locked%20file.txt</d:href></d:lock-token-submitted></d:error>
+  </d:response>
+  <d:response>
+    <d:href>/dav/Projects/</d:href>
+    <d:status>HTTP/1.1 424 Failed Dependency</d:status>
+  </d:response>
+</d:multistatus>`,
+      });
+      mockParameters({ resource: 'file', operation: 'delete', path: '/Projects' });
+
+      const result = await (webDavNode as any).execute();
+      expect(result[0][0].json).toEqual({
+        success: false,
+        statusCode: 207,
+        path: '/Projects',
+        failed: [
+          {
+            href: '/dav/Projects/locked file.txt',
+            path: '/Projects/locked file.txt',
+            statusCode: 423,
+            error: ['lock-token-submitted'],
+            description: null,
+          },
+          { href: '/dav/Projects/', path: '/Projects/', statusCode: 424, error: [], description: null },
+        ],
+      });
+    });
+
+    test('should treat a Multi-Status without failures as success for copy and move', async () => {
+      mockHelpers.httpRequest.mockResolvedValue({
+        statusCode: 207,
+        body: '<d:multistatus xmlns:d="DAV:"><d:response><d:href>/dav/b/x.txt</d:href><d:status>HTTP/1.1 201 Created</d:status></d:response></d:multistatus>',
+      });
+      mockParameters({ resource: 'file', operation: 'copy', path: '/a', destination: '/b' });
+      const copied = await (webDavNode as any).execute();
+      expect(copied[0][0].json).toMatchObject({ success: true, statusCode: 207, failed: [] });
+
+      mockHelpers.httpRequest.mockResolvedValue({
+        statusCode: 207,
+        body: '<d:multistatus xmlns:d="DAV:"><d:response><d:href>/dav/a/x.txt</d:href><d:status>HTTP/1.1 403 Forbidden</d:status><d:responsedescription>Read-only</d:responsedescription></d:response></d:multistatus>',
+      });
+      mockParameters({ resource: 'file', operation: 'move', path: '/a', destination: '/b' });
+      const moved = await (webDavNode as any).execute();
+      expect(moved[0][0].json).toMatchObject({
+        success: false,
+        failed: [{ path: '/a/x.txt', statusCode: 403, description: 'Read-only' }],
+      });
+    });
+  });
+
+  describe('Server Capabilities', () => {
+    beforeEach(() => {
+      mockGetCredentials.mockResolvedValue({ baseUrl: 'https://cloud.example.com/remote.php/dav/files/alice' });
+      mockGetInputData.mockReturnValue([{ json: {} }]);
+    });
+
+    test('should parse DAV classes, Allow and MS-Author-Via into flags', async () => {
+      mockHelpers.httpRequest.mockResolvedValue({
+        statusCode: 200,
+        headers: {
+          dav: ['1, 3, extended-mkcol, access-control, calendarserver-principal-property-search', 'nextcloud-checksum-update, nc-calendar-search'],
+          allow: 'OPTIONS, GET, HEAD, DELETE, PROPFIND, PUT, PROPPATCH, COPY, MOVE, REPORT, SEARCH',
+          'ms-author-via': 'DAV',
+        },
+      });
+      mockParameters({ resource: 'file', operation: 'capabilities', path: '/' });
+
+      const result = await (webDavNode as any).execute();
+      expect(mockHelpers.httpRequest.mock.calls[0][0]).toMatchObject({
+        method: 'OPTIONS',
+        url: 'https://cloud.example.com/remote.php/dav/files/alice/',
+      });
+      const json = result[0][0].json;
+      expect(json.davClasses).toEqual([
+        '1',
+        '3',
+        'extended-mkcol',
+        'access-control',
+        'calendarserver-principal-property-search',
+        'nextcloud-checksum-update',
+        'nc-calendar-search',
+      ]);
+      expect(json.msAuthorVia).toEqual(['DAV']);
+      expect(json.compliance).toMatchObject({ class1: true, class2: false, class3: true, accessControl: true, extendedMkcol: true, addressbook: false });
+      expect(json.methods).toMatchObject({ lock: false, search: true, mkcol: false, propfind: true });
+      expect(json.supports).toMatchObject({ webdav: true, locking: false, search: true, nextcloudChunking: true });
+    });
+
+    test('should recognise locking servers without Nextcloud extensions', async () => {
+      mockHelpers.httpRequest.mockResolvedValue({
+        statusCode: 200,
+        headers: {
+          DAV: '1,2,<http://apache.org/dav/propset/fs/1>',
+          Allow: 'OPTIONS,GET,HEAD,POST,DELETE,TRACE,PROPFIND,PROPPATCH,COPY,MOVE,LOCK,UNLOCK',
+          Server: 'Apache/2.4.62',
+        },
+      });
+      mockParameters({ resource: 'file', operation: 'capabilities', path: '/' });
+
+      const result = await (webDavNode as any).execute();
+      expect(result[0][0].json).toMatchObject({
+        davClasses: ['1', '2', 'http://apache.org/dav/propset/fs/1'],
+        server: 'Apache/2.4.62',
+        msAuthorVia: [],
+        supports: { webdav: true, locking: true, search: false, nextcloudChunking: false, acl: false },
+      });
+    });
+  });
 });
@@ -0,0 +1,198 @@
+import { Readable } from 'stream';
+import { WebDavTrigger } from '../nodes/WebDav/WebDavTrigger.node';
+
+// Mock n8n workflow
+jest.mock('n8n-workflow', () => ({
+  NodeConnectionType: { Main: 'main' },
+  NodeOperationError: class NodeOperationError extends Error {
+    constructor(node: any, message: string) {
+      super(message);
+      this.name = 'NodeOperationError';
+    }
+  },
+}));
+
+describe('WebDav Trigger Node', () => {
+  let trigger: WebDavTrigger;
+  let mockHelpers: any;
+  let staticData: Record<string, any>;
+  let params: Record<string, any>;
+  let mode: string;
+
+  const entry = (href: string, opts: { dir?: boolean; etag?: string; modified?: string } = {}) =>
+    `<d:response><d:href>${href}</d:href><d:propstat><d:prop>` +
+    (opts.dir ? '<d:resourcetype><d:collection/></d:resourcetype>' : '<d:resourcetype/>') +
+    (opts.etag ? `<d:getetag>${opts.etag}</d:getetag>` : '') +
+    (opts.modified ? `<d:getlastmodified>${opts.modified}</d:getlastmodified>` : '') +
+    '</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>';
+  const multistatus = (responses: string[], token?: string) => ({
+    statusCode: 207,
+    body:
+      `<d:multistatus xmlns:d="DAV:">${responses.join('')}` +
+      (token ? `<d:sync-token>${token}</d:sync-token>` : '') +
+      '</d:multistatus>',
+  });
+
+  beforeEach(() => {
+    trigger = new WebDavTrigger();
+    staticData = {};
+    params = { path: '/Inbox', events: ['created', 'modified', 'deleted'], recursive: false, options: {} };
+    mode = 'trigger';
+    mockHelpers = {
+      httpRequest: jest.fn(),
+      prepareBinaryData: jest.fn(async (data: Readable, fileName: string) => {
+        const chunks: Buffer[] = [];
+        for await (const chunk of data) chunks.push(Buffer.from(chunk));
+        return { data: Buffer.concat(chunks).toString('base64'), fileName };
+      }),
+    };
+
+    (trigger as any).getNodeParameter = jest.fn((name: string, fallback?: any) =>
+      name in params ? params[name] : fallback,
+    );
+    (trigger as any).getCredentials = jest.fn(async () => ({ baseUrl: 'https://dav.example.com/files/alice' }));
+    (trigger as any).getWorkflowStaticData = jest.fn(() => staticData);
+    (trigger as any).getMode = jest.fn(() => mode);
+    (trigger as any).getNode = jest.fn(() => ({ name: 'WebDAV Trigger' }));
+    (trigger as any).helpers = mockHelpers;
+  });
+
+  test('should only record the snapshot on the first poll', async () => {
+    mockHelpers.httpRequest.mockResolvedValue(
+      multistatus([entry('/files/alice/Inbox/', { dir: true }), entry('/files/alice/Inbox/a.pdf', { etag: '"a1"' })]),
+    );
+
+    expect(await (trigger as any).poll()).toBeNull();
+    expect(mockHelpers.httpRequest.mock.calls[0][0]).toMatchObject({
+      method: 'PROPFIND',
+      url: 'https://dav.example.com/files/alice/Inbox',
+      headers: { Depth: '1' },
+    });
+    expect(staticData.state.known).toEqual({ '/Inbox/a.pdf': '"a1"' });
+  });
+
+  test('should emit created, modified and deleted files between polls', async () => {
+    staticData.state = {
+      key: 'snapshot:flat:/Inbox',
+      known: { '/Inbox/a.pdf': '"a1"', '/Inbox/b.pdf': '"b1"', '/Inbox/old.pdf': '"o1"', '/Inbox/Sub': 'dir:"s1"' },
+    };
+    mockHelpers.httpRequest.mockResolvedValue(
+      multistatus([
+        entry('/files/alice/Inbox/', { dir: true }),
+        entry('/files/alice/Inbox/a.pdf', { etag: '"a1"' }),
+        entry('/files/alice/Inbox/b.pdf', { etag: '"b2"' }),
+        entry('/files/alice/Inbox/new%20file.pdf', { etag: '"n1"' }),
+      ]),
+    );
+
+    const result = await (trigger as any).poll();
+    expect(result[0].map((i: any) => [i.json.event, i.json.path])).toEqual([
+      ['modified', '/Inbox/b.pdf'],
+      ['created', '/Inbox/new file.pdf'],
+      ['deleted', '/Inbox/old.pdf'],
+    ]);
+  });
+
+  test('should apply the glob filter and download matching files', async () => {
+    params.events = ['created'];
+    params.options = { namePattern: '*.pdf', downloadFiles: true, binaryPropertyName: 'file' };
+    staticData.state = { key: 'snapshot:flat:/Inbox', known: {} };
+    mockHelpers.httpRequest.mockImplementation(async (opts: any) =>
+      opts.method === 'GET'
+        ? { statusCode: 200, body: Readable.from([Buffer.from('pdf')]) }
+        : multistatus([
+            entry('/files/alice/Inbox/', { dir: true }),
+            entry('/files/alice/Inbox/a.pdf', { etag: '"a1"' }),
+            entry('/files/alice/Inbox/notes.txt', { etag: '"t1"' }),
+          ]),
+    );
+
+    const result = await (trigger as any).poll();
+    expect(result[0]).toHaveLength(1);
+    expect(result[0][0].json.name).toBe('a.pdf');
+    expect(result[0][0].binary.file).toEqual({ data: Buffer.from('pdf').toString('base64'), fileName: 'a.pdf' });
+    expect(mockHelpers.httpRequest.mock.calls[1][0]).toMatchObject({
+      method: 'GET',
+      url: 'https://dav.example.com/files/alice/Inbox/a.pdf',
+      encoding: 'stream',
+    });
+  });
+
+  test('should keep the previous state when a download fails', async () => {
+    params.options = { downloadFiles: true };
+    staticData.state = { key: 'snapshot:flat:/Inbox', known: {} };
+    mockHelpers.httpRequest.mockImplementation(async (opts: any) => {
+      if (opts.method === 'GET') throw Object.assign(new Error('Bad Gateway'), { statusCode: 502 });
+      return multistatus([entry('/files/alice/Inbox/', { dir: true }), entry('/files/alice/Inbox/a.pdf', { etag: '"a1"' })]);
+    });
+
+    await expect((trigger as any).poll()).rejects.toThrow('HTTP 502');
+    expect(staticData.state).toEqual({ key: 'snapshot:flat:/Inbox', known: {} });
+  });
+
+  test('should show the newest file on a manual run without saved state', async () => {
+    mode = 'manual';
+    mockHelpers.httpRequest.mockResolvedValue(
+      multistatus([
+        entry('/files/alice/Inbox/', { dir: true }),
+        entry('/files/alice/Inbox/a.pdf', { etag: '"a1"', modified: 'Mon, 01 Sep 2025 10:00:00 GMT' }),
+        entry('/files/alice/Inbox/b.pdf', { etag: '"b1"', modified: 'Wed, 15 Oct 2025 10:00:00 GMT' }),
+      ]),
+    );
+
+    const result = await (trigger as any).poll();
+    expect(result[0].map((i: any) => i.json.name)).toEqual(['b.pdf']);
+  });
+
+  test('should use the sync token and fall back when it is rejected', async () => {
+    params.options = { detection: 'syncToken' };
+    staticData.state = {
+      key: 'syncToken:flat:/Inbox',
+      token: 'expired',
+      known: { '/Inbox/a.pdf': '"a1"', '/Inbox/gone.pdf': '"g1"' },
+    };
+    mockHelpers.httpRequest
+      .mockResolvedValueOnce({ statusCode: 403, body: '<d:error xmlns:d="DAV:"><d:valid-sync-token/></d:error>' })
+      .mockResolvedValueOnce(
+        multistatus(
+          [entry('/files/alice/Inbox/a.pdf', { etag: '"a1"' }), entry('/files/alice/Inbox/c.pdf', { etag: '"c1"' })],
+          'tok-2',
+        ),
+      );
+
+    const result = await (trigger as any).poll();
+    expect(mockHelpers.httpRequest.mock.calls[0][0].body).toContain('<D:sync-token>expired</D:sync-token>');
+    expect(mockHelpers.httpRequest.mock.calls[1][0].body).toContain('<D:sync-token></D:sync-token>');
+    expect(result[0].map((i: any) => [i.json.event, i.json.path])).toEqual([
+      ['created', '/Inbox/c.pdf'],
+      ['deleted', '/Inbox/gone.pdf'],
+    ]);
+    expect(staticData.state.token).toBe('tok-2');
+  });
+
+  test('should report incremental changes since the saved token', async () => {
+    params.options = { detection: 'syncToken' };
+    params.recursive = true;
+    staticData.state = { key: 'syncToken:recursive:/Inbox', token: 'tok-1', known: { '/Inbox/a.pdf': '"a1"' } };
+    mockHelpers.httpRequest.mockResolvedValue({
+      statusCode: 207,
+      body:
+        '<d:multistatus xmlns:d="DAV:">' +
+        '<d:response><d:href>/files/alice/Inbox/a.pdf</d:href><d:status>HTTP/1.1 404 Not Found</d:status></d:response>' +
+        entry('/files/alice/Inbox/Sub/b.pdf', { etag: '"b1"' }) +
+        '<d:sync-token>tok-2</d:sync-token></d:multistatus>',
+    });
+
+    const result = await (trigger as any).poll();
+    expect(mockHelpers.httpRequest.mock.calls[0][0].body).toContain('<D:sync-level>infinite</D:sync-level>');
+    expect(result[0].map((i: any) => [i.json.event, i.json.relativePath])).toEqual([
+      ['deleted', 'a.pdf'],
+      ['created', 'Sub/b.pdf'],
+    ]);
+    expect(staticData.state).toEqual({
+      key: 'syncToken:recursive:/Inbox',
+      token: 'tok-2',
+      known: { '/Inbox/Sub/b.pdf': '"b1"' },
+    });
+  });
+});
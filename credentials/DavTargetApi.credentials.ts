@@ -0,0 +1,64 @@
+import {
+	IAuthenticateGeneric,
+	ICredentialTestRequest,
+	ICredentialType,
+	INodeProperties,
+} from 'n8n-workflow';
+
+// Second DAV server for the WebDAV Transfer operation. n8n attaches only one credential of a type to a
+// node, so the target server has its own credential type with the same fields.
+export class DavTargetApi implements ICredentialType {
+	name = 'davTargetApi';
+	displayName = 'DAV Transfer Target API';
+	documentationUrl = 'https://docs.n8n.io/integrations/creating-nodes/';
+
+	properties: INodeProperties[] = [
+		{
+			displayName: 'Base URL',
+			name: 'baseUrl',
+			type: 'string',
+			default: '',
+			placeholder: 'https://dav.example.com',
+			description: 'The base URL of the DAV server that files are transferred to (must include http/https). Example: https://nextcloud.example.com/remote.php/dav',
+			required: true,
+		},
+		{
+			displayName: 'Username',
+			name: 'username',
+			type: 'string',
+			default: '',
+			required: true,
+		},
+		{
+			displayName: 'Password',
+			name: 'password',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			default: '',
+			required: true,
+		},
+	];
+
+	authenticate: IAuthenticateGeneric = {
+		type: 'generic',
+		properties: {
+			auth: {
+				username: '={{ $credentials.username }}',
+				password: '={{ $credentials.password }}',
+			},
+		},
+	};
+
+	test: ICredentialTestRequest = {
+		request: {
+			baseURL: '={{ $credentials.baseUrl }}',
+			url: '/',
+			method: 'PROPFIND' as any,
+			headers: {
+				Depth: '0',
+			},
+		},
+	};
+}
@@ -1,11 +1,15 @@
 const DavApi = require('./dist/credentials/DavApi.credentials');
+const DavTargetApi = require('./dist/credentials/DavTargetApi.credentials');
 const WebDav = require('./dist/nodes/WebDav/WebDav.node');
+const WebDavTrigger = require('./dist/nodes/WebDav/WebDavTrigger.node');
 const CalDav = require('./dist/nodes/CalDav/CalDav.node');
 const CardDav = require('./dist/nodes/CardDav/CardDav.node');
 
 module.exports = {
 	DavApi,
+	DavTargetApi,
 	WebDav,
+	WebDavTrigger,
 	CalDav,
 	CardDav,
 };
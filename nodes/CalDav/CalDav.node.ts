@@ -8,6 +8,7 @@ import type {
 } from 'n8n-workflow';
 import { NodeConnectionType, NodeOperationError } from 'n8n-workflow';
 import { calDavFields, calDavOperations } from './CalDavDescription';
+import { getRetryOptions, requestWithRetry } from '../utils/retry';
 
 export class CalDav implements INodeType {
         description: INodeTypeDescription = {
@@ -161,6 +162,8 @@ export class CalDav implements INodeType {
 				.join('/');
 			return `/${encoded}`;
 		};		for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+			// Number of transient failures that were retried for this item
+			let httpRetries = 0;
 			try {
 				const operation = this.getNodeParameter('operation', itemIndex) as string;
 				const item = items[itemIndex];
@@ -193,13 +196,21 @@ export class CalDav implements INodeType {
 							delete (opts as any).baseURL;
 						}
 						const hAny = this.helpers as any;
-						if (typeof hAny.httpRequestWithAuthentication === 'function') {
-							return await hAny.httpRequestWithAuthentication.call(this, 'davApi', opts as any);
-						}
-						if (typeof hAny.requestWithAuthentication === 'function') {
-							return await hAny.requestWithAuthentication.call(this, 'davApi', opts as any);
-						}
-						return await this.helpers.httpRequest(opts as any);
+						const send = async () => {
+							if (typeof hAny.httpRequestWithAuthentication === 'function') {
+								return await hAny.httpRequestWithAuthentication.call(this, 'davApi', opts as any);
+							}
+							if (typeof hAny.requestWithAuthentication === 'function') {
+								return await hAny.requestWithAuthentication.call(this, 'davApi', opts as any);
+							}
+							return await this.helpers.httpRequest(opts as any);
+						};
+						return await requestWithRetry(
+							send,
+							() => getRetryOptions(this.getNodeParameter('retry', itemIndex, {})),
+							() => httpRetries++,
+							opts.method,
+						);
 					} catch (e: any) {
 						const u = (opts as any).__displayUrl ?? (opts as any)?.url;
 						const resource = this.getNodeParameter('resource', itemIndex) as string;
@@ -432,14 +443,17 @@ export class CalDav implements INodeType {
 					default:
 						throw new NodeOperationError(this.getNode(), `Operation ${operation} not supported`);
 				}
+				if (httpRetries) item.json.httpRetries = httpRetries;
 
 			} catch (error) {
 				if (this.continueOnFail()) {
-					items.push({
-						json: this.getInputData(itemIndex)[0].json,
+					// The failed item takes the place of its input item; pushing it would extend the loop forever
+					const json = this.getInputData(itemIndex)[0].json;
+					items[itemIndex] = {
+						json: httpRetries ? { ...json, httpRetries } : json,
 						error,
 						pairedItem: itemIndex
-					});
+					};
 				} else {
 					if (error.context) {
 						error.context.itemIndex = itemIndex;
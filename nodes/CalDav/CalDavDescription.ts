@@ -1,4 +1,5 @@
 import { INodeProperties } from 'n8n-workflow';
+import { retryFields } from '../utils/retry';
 
 // CalDAV Operations
 export const calDavOperations: INodeProperties[] = [
@@ -351,4 +352,9 @@ export const calDavFields: INodeProperties[] = [
 	/*                             calendar:deleteEvent                           */
 	/* -------------------------------------------------------------------------- */
 	...deleteEventOperationFields,
+
+	/* -------------------------------------------------------------------------- */
+	/*                                 calendar:*                                 */
+	/* -------------------------------------------------------------------------- */
+	...retryFields(['calendar']),
 ];
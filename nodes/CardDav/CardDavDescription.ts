@@ -1,4 +1,5 @@
 import { INodeProperties } from 'n8n-workflow';
+import { retryFields } from '../utils/retry';
 
 // CardDAV Operations
 export const cardDavOperations: INodeProperties[] = [
@@ -312,4 +313,9 @@ export const cardDavFields: INodeProperties[] = [
 	/*                          addressbook:deleteContact                         */
 	/* -------------------------------------------------------------------------- */
 	...deleteContactOperationFields,
+
+	/* -------------------------------------------------------------------------- */
+	/*                               addressbook:*                                */
+	/* -------------------------------------------------------------------------- */
+	...retryFields(['addressbook']),
 ];
@@ -0,0 +1,874 @@
+import type { IDataObject, INode } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { deflateRawSync, gzipSync, inflateRawSync } from 'zlib';
+
+// Shared XML helpers for the WebDAV nodes.
+// DAV servers differ in namespace prefixes (D:, d:, none), so element names are matched by local name.
+
+export interface XmlElement {
+	prefix: string;
+	name: string;
+	namespace: string;
+	attributes: string;
+	inner: string;
+}
+
+export interface MultiStatusPropStat {
+	status: number | null;
+	statusLine: string | null;
+	props: XmlElement[];
+	error: string[];
+	description: string | null;
+}
+
+export interface MultiStatusResponse {
+	href: string;
+	status: number | null;
+	statusLine: string | null;
+	propstats: MultiStatusPropStat[];
+	error: string[];
+	description: string | null;
+}
+
+// Escape user-provided values embedded in XML request bodies
+export function escapeXml(v: string): string {
+	return v
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&apos;');
+}
+
+export function decodeXmlEntities(v: string): string {
+	return v
+		.replace(/<!\[CDATA\[(.*?)\]\]>/gs, '$1')
+		.replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+		.replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&quot;/g, '"')
+		.replace(/&apos;/g, "'")
+		.replace(/&amp;/g, '&');
+}
+
+// Inner XML of the first element with the given local name, or null when absent
+export function xmlInner(xml: string, tag: string): string | null {
+	const m = xml.match(new RegExp(`<(?:[\\w-]+:)?${tag}(?:\\s[^>]*)?>(.*?)<\\/(?:[\\w-]+:)?${tag}>`, 's'));
+	return m ? m[1].trim() : null;
+}
+
+// Inner XML of every (non-nested) element with the given local name
+export function xmlElements(xml: string, tag: string): string[] {
+	const regex = new RegExp(`<(?:[\\w-]+:)?${tag}(?:\\s[^>]*)?>(.*?)<\\/(?:[\\w-]+:)?${tag}>`, 'gs');
+	const found: string[] = [];
+	let match;
+	while ((match = regex.exec(xml)) !== null) {
+		found.push(match[1]);
+	}
+	return found;
+}
+
+// Collect namespace declarations of a document (prefix -> URI, '' for the default namespace).
+// The first declaration of a prefix wins; element-local redeclarations are honoured by xmlChildren.
+export function parseXmlNamespaces(xml: string): Record<string, string> {
+	const namespaces: Record<string, string> = {};
+	const regex = /\sxmlns(?::([\w.-]+))?\s*=\s*["']([^"']*)["']/g;
+	let match;
+	while ((match = regex.exec(xml)) !== null) {
+		const prefix = match[1] ?? '';
+		if (!(prefix in namespaces)) namespaces[prefix] = match[2];
+	}
+	return namespaces;
+}
+
+const toElement = (
+	qname: string,
+	attributes: string,
+	inner: string,
+	namespaces: Record<string, string>,
+): XmlElement => {
+	const [prefix, name] = qname.includes(':') ? qname.split(':', 2) : ['', qname];
+	const localDecl = attributes.match(
+		new RegExp(`xmlns${prefix ? `:${prefix}` : ''}\\s*=\\s*["']([^"']*)["']`),
+	);
+	return {
+		prefix,
+		name,
+		namespace: localDecl ? localDecl[1] : (namespaces[prefix] ?? ''),
+		attributes: attributes.trim(),
+		inner: inner.trim(),
+	};
+};
+
+// Direct child elements of an XML fragment
+export function xmlChildren(xml: string, namespaces: Record<string, string> = {}): XmlElement[] {
+	const children: XmlElement[] = [];
+	const tagRegex = /<(\/?)([\w.-]+(?::[\w.-]+)?)((?:\s[^>]*?)?)(\/?)>/g;
+	let depth = 0;
+	let current: { qname: string; attributes: string; start: number } | undefined;
+	let match;
+	while ((match = tagRegex.exec(xml)) !== null) {
+		const [full, closing, qname, attributes, selfClosing] = match;
+		if (closing) {
+			depth--;
+			if (depth === 0 && current) {
+				children.push(
+					toElement(current.qname, current.attributes, xml.slice(current.start, match.index), namespaces),
+				);
+				current = undefined;
+			}
+		} else if (selfClosing) {
+			if (depth === 0) children.push(toElement(qname, attributes, '', namespaces));
+		} else {
+			if (depth === 0) current = { qname, attributes, start: match.index + full.length };
+			depth++;
+		}
+	}
+	return children;
+}
+
+// "HTTP/1.1 424 Failed Dependency" -> 424
+export function parseStatusLine(line: string | null): number | null {
+	const m = line?.match(/HTTP\/[\d.]+\s+(\d{3})/i);
+	return m ? Number(m[1]) : null;
+}
+
+// Names of the precondition/postcondition elements inside a DAV:error element
+const errorConditions = (xml: string, namespaces: Record<string, string>): string[] => {
+	const errorXml = xmlInner(xml, 'error');
+	return errorXml ? xmlChildren(errorXml, namespaces).map((e) => e.name) : [];
+};
+
+// Parse a 207 Multi-Status body (RFC 4918 section 13) into one entry per DAV:response
+export function parseMultiStatus(xml: string): MultiStatusResponse[] {
+	const namespaces = parseXmlNamespaces(xml);
+	return xmlElements(xml, 'response').map((responseXml) => {
+		const href = xmlInner(responseXml, 'href') ?? '';
+		const propstats = xmlElements(responseXml, 'propstat').map((propstatXml) => {
+			const statusLine = xmlInner(propstatXml, 'status');
+			const propXml = xmlInner(propstatXml, 'prop') ?? '';
+			return {
+				status: parseStatusLine(statusLine),
+				statusLine,
+				props: xmlChildren(propXml, namespaces),
+				error: errorConditions(propstatXml, namespaces),
+				description: xmlInner(propstatXml, 'responsedescription'),
+			};
+		});
+		// The response-level status and error live outside the propstat elements
+		const outerXml = responseXml.replace(/<(?:[\w-]+:)?propstat(?:\s[^>]*)?>.*?<\/(?:[\w-]+:)?propstat>/gs, '');
+		const statusLine = xmlInner(outerXml, 'status');
+		let decodedHref = decodeXmlEntities(href);
+		try {
+			decodedHref = decodeURIComponent(decodedHref);
+		} catch {
+			// keep the raw href when it is not valid percent-encoding
+		}
+		return {
+			href: decodedHref,
+			status: parseStatusLine(statusLine),
+			statusLine,
+			propstats,
+			error: errorConditions(outerXml, namespaces),
+			description: xmlInner(outerXml, 'responsedescription'),
+		};
+	});
+}
+
+const WELL_KNOWN_PREFIXES: Record<string, string> = {
+	'DAV:': '',
+	'http://owncloud.org/ns': 'oc',
+	'http://nextcloud.org/ns': 'nc',
+	'http://open-collaboration-services.org/ns': 'ocs',
+	'urn:ietf:params:xml:ns:caldav': 'cal',
+	'urn:ietf:params:xml:ns:carddav': 'card',
+	'http://apple.com/ns/ical/': 'ical',
+	'http://calendarserver.org/ns/': 'cs',
+};
+
+// Stable output key for a property: DAV: properties by local name, well-known namespaces
+// with their usual prefix (oc:fileid), anything else in Clark notation ({urn:acme}state)
+export function propertyKey(namespace: string, name: string): string {
+	if (!namespace) return name;
+	const prefix = WELL_KNOWN_PREFIXES[namespace];
+	if (prefix === undefined) return `{${namespace}}${name}`;
+	return prefix ? `${prefix}:${name}` : name;
+}
+
+// Parse "{namespace}name" (Clark notation) or a well-known "prefix:name" into its parts
+export function parsePropertyKey(key: string): { namespace: string; name: string } {
+	const clark = key.match(/^\{(.*)\}(.+)$/);
+	if (clark) return { namespace: clark[1], name: clark[2] };
+	const [prefix, name] = key.includes(':') ? key.split(':', 2) : ['', key];
+	const namespace = Object.keys(WELL_KNOWN_PREFIXES).find((ns) => WELL_KNOWN_PREFIXES[ns] === prefix);
+	return { namespace: namespace ?? 'DAV:', name };
+}
+
+export function isValidXmlName(name: string): boolean {
+	return /^[A-Za-z_][\w.-]*$/.test(name);
+}
+
+// Assigns one prefix per namespace while building request bodies; DAV: keeps the conventional D prefix
+export function createNamespaceRegistry() {
+	const prefixes: Record<string, string> = { 'DAV:': 'D' };
+	return {
+		qualify(namespace: string, name: string): { tag: string; decl: string } {
+			if (!namespace) return { tag: name, decl: ' xmlns=""' };
+			if (!prefixes[namespace]) prefixes[namespace] = `x${Object.keys(prefixes).length - 1}`;
+			return { tag: `${prefixes[namespace]}:${name}`, decl: '' };
+		},
+		declarations(): string {
+			return Object.entries(prefixes)
+				.filter(([ns]) => ns !== 'DAV:')
+				.map(([ns, prefix]) => ` xmlns:${prefix}="${escapeXml(ns)}"`)
+				.join('');
+		},
+	};
+}
+
+// Convert a property value to JSON: text stays a (decoded) string, a list of empty markers such as
+// <d:collection/> becomes an array of names, nested elements become objects keyed by local name
+export function xmlToValue(inner: string): unknown {
+	const children = xmlChildren(inner);
+	if (children.length === 0) return decodeXmlEntities(inner);
+	if (children.every((c) => !c.inner)) return children.map((c) => c.name);
+	const value: Record<string, unknown> = {};
+	const repeated = new Set<string>();
+	for (const child of children) {
+		const childValue = xmlToValue(child.inner);
+		if (!(child.name in value)) {
+			value[child.name] = childValue;
+		} else if (repeated.has(child.name)) {
+			(value[child.name] as unknown[]).push(childValue);
+		} else {
+			value[child.name] = [value[child.name], childValue];
+			repeated.add(child.name);
+		}
+	}
+	return value;
+}
+
+// Parse a PROPFIND multistatus into one object per resource. The commonly used live
+// properties get dedicated fields; every returned property is listed under "props"
+// and properties the server could not return (non-2xx propstat) under "failedProperties".
+export function parsePropfindResponse(xmlData: string): IDataObject[] {
+	return parseMultiStatus(String(xmlData ?? '')).map((res) => {
+		const props: IDataObject = {};
+		const failedProperties: IDataObject[] = [];
+		for (const propstat of res.propstats) {
+			const ok = propstat.status === null || (propstat.status >= 200 && propstat.status < 300);
+			for (const prop of propstat.props) {
+				const key = propertyKey(prop.namespace, prop.name);
+				if (ok) {
+					props[key] = xmlToValue(prop.inner) as IDataObject[keyof IDataObject];
+				} else {
+					failedProperties.push({
+						key,
+						namespace: prop.namespace,
+						name: prop.name,
+						status: propstat.status,
+					});
+				}
+			}
+		}
+		const text = (key: string) => (typeof props[key] === 'string' ? (props[key] as string) : null);
+		const contentLength = text('getcontentlength');
+		const resourceType = props.resourcetype as unknown;
+		return {
+			href: res.href,
+			contentType: text('getcontenttype'),
+			lastModified: text('getlastmodified'),
+			contentLength: contentLength ? parseInt(contentLength) : null,
+			isCollection: Array.isArray(resourceType) && (resourceType as string[]).includes('collection'),
+			etag: text('getetag'),
+			displayName: text('displayname'),
+			props,
+			failedProperties,
+		};
+	});
+}
+
+// Re-slice a buffer or a stream into chunks of exactly `size` bytes (the last one may be shorter).
+// Always yields at least one chunk so empty files still produce a request.
+export async function* readChunks(
+	source: Buffer | AsyncIterable<Buffer | Uint8Array | string>,
+	size: number,
+): AsyncGenerator<Buffer> {
+	if (Buffer.isBuffer(source)) {
+		for (let offset = 0; offset < source.length; offset += size) {
+			yield source.subarray(offset, offset + size);
+		}
+		if (source.length === 0) yield source;
+		return;
+	}
+	let pending: Buffer[] = [];
+	let pendingLength = 0;
+	let yielded = false;
+	for await (const piece of source) {
+		const buf = Buffer.isBuffer(piece) ? piece : Buffer.from(piece);
+		pending.push(buf);
+		pendingLength += buf.length;
+		while (pendingLength >= size) {
+			const joined = Buffer.concat(pending, pendingLength);
+			yield joined.subarray(0, size);
+			yielded = true;
+			pending = [joined.subarray(size)];
+			pendingLength -= size;
+		}
+	}
+	if (pendingLength > 0 || !yielded) yield Buffer.concat(pending, pendingLength);
+}
+
+// Convert a glob (*, **, ?, [abc], [!abc], {a,b}) into an anchored, case-insensitive regular expression.
+// "*" and "?" stay within one path segment; "**" crosses segments.
+export function globToRegExp(glob: string): RegExp {
+	let re = '';
+	let groupDepth = 0;
+	for (let i = 0; i < glob.length; i++) {
+		const c = glob[i];
+		if (c === '*') {
+			if (glob[i + 1] === '*') {
+				if (glob[i + 2] === '/') {
+					re += '(?:.*/)?';
+					i += 2;
+				} else {
+					re += '.*';
+					i++;
+				}
+			} else {
+				re += '[^/]*';
+			}
+		} else if (c === '?') {
+			re += '[^/]';
+		} else if (c === '[' && glob.indexOf(']', i + 1) > i + 1) {
+			const close = glob.indexOf(']', i + 1);
+			const cls = glob.slice(i + 1, close).replace(/\\/g, '\\\\');
+			re += cls.startsWith('!') ? `[^${cls.slice(1)}]` : `[${cls}]`;
+			i = close;
+		} else if (c === '{') {
+			groupDepth++;
+			re += '(?:';
+		} else if (c === '}' && groupDepth > 0) {
+			groupDepth--;
+			re += ')';
+		} else if (c === ',' && groupDepth > 0) {
+			re += '|';
+		} else {
+			re += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+	return new RegExp(`^${re}$`, 'i');
+}
+
+const CHECKSUM_ALGORITHMS: Record<string, string> = { MD5: 'md5', SHA1: 'sha1', SHA256: 'sha256', SHA512: 'sha512' };
+
+// Parse checksums in the "ALGORITHM:hex" form used by OC-Checksum headers and oc:checksums, several
+// separated by spaces. Algorithms become Node.js hash names; unsupported ones (e.g. ADLER32) are dropped.
+export function parseChecksums(value: unknown): Array<{ algorithm: string; value: string }> {
+	const checksums: Array<{ algorithm: string; value: string }> = [];
+	for (const entry of String(value ?? '').split(/[\s,]+/)) {
+		const m = entry.match(/^([\w-]+):([0-9a-f]+)$/i);
+		const algorithm = m ? CHECKSUM_ALGORITHMS[m[1].toUpperCase().replace('-', '')] : undefined;
+		if (algorithm) checksums.push({ algorithm, value: m![2].toLowerCase() });
+	}
+	return checksums;
+}
+
+// Parse a user-provided checksum: "SHA256:hex" or a bare hex digest, whose algorithm is taken
+// from its length or, if ambiguous, from the fallback
+export function parseExpectedChecksum(value: string, fallback: string): { algorithm: string; value: string } | null {
+	const text = value.trim();
+	if (!text) return null;
+	if (text.includes(':')) return parseChecksums(text)[0] ?? null;
+	if (!/^[0-9a-f]+$/i.test(text)) return null;
+	const byLength: Record<number, string> = { 32: 'md5', 40: 'sha1', 64: 'sha256', 128: 'sha512' };
+	return { algorithm: byLength[text.length] ?? fallback, value: text.toLowerCase() };
+}
+
+// RFC 3744 principals that are not addressed by URL
+const ACL_PRINCIPAL_KEYWORDS = ['all', 'authenticated', 'unauthenticated', 'self'];
+
+// Privilege names inside DAV:privilege elements, keyed like properties (read, cal:read-free-busy)
+const privilegeNames = (xml: string, namespaces: Record<string, string>): string[] =>
+	xmlChildren(xml, namespaces)
+		.filter((e) => e.name === 'privilege')
+		.flatMap((p) => xmlChildren(p.inner, namespaces).map((c) => propertyKey(c.namespace, c.name)));
+
+// A principal as a string: its href, a keyword (all, authenticated, unauthenticated, self)
+// or "property:<key>" for principals identified by a property such as DAV:owner
+const principalName = (xml: string, namespaces: Record<string, string>): string | null => {
+	const [el] = xmlChildren(xml, namespaces);
+	if (!el) return null;
+	if (el.name === 'href') return decodeXmlEntities(el.inner);
+	if (el.name === 'property') {
+		const [prop] = xmlChildren(el.inner, namespaces);
+		return prop ? `property:${propertyKey(prop.namespace, prop.name)}` : null;
+	}
+	return el.name;
+};
+
+// Normalize the DAV:acl, DAV:current-user-privilege-set and DAV:owner properties (RFC 3744) of a
+// PROPFIND response. Properties the server does not return or denies access to are null.
+export function parseAclResponse(xml: string): IDataObject {
+	const namespaces = parseXmlNamespaces(xml);
+	const [res] = parseMultiStatus(xml);
+	const props: Record<string, string> = {};
+	const failedProperties: IDataObject[] = [];
+	for (const propstat of res?.propstats ?? []) {
+		const ok = propstat.status === null || (propstat.status >= 200 && propstat.status < 300);
+		for (const prop of propstat.props) {
+			if (prop.namespace !== 'DAV:') continue;
+			if (ok) props[prop.name] = prop.inner;
+			else failedProperties.push({ name: prop.name, status: propstat.status });
+		}
+	}
+
+	const acl =
+		props.acl === undefined
+			? null
+			: xmlChildren(props.acl, namespaces)
+					.filter((e) => e.name === 'ace')
+					.map((ace) => {
+						const parts = xmlChildren(ace.inner, namespaces);
+						const part = (name: string) => parts.find((p) => p.name === name);
+						const inverted = part('invert');
+						const principalXml = inverted
+							? xmlChildren(inverted.inner, namespaces).find((p) => p.name === 'principal')?.inner
+							: part('principal')?.inner;
+						const inherited = part('inherited');
+						return {
+							principal: principalName(principalXml ?? '', namespaces),
+							invert: Boolean(inverted),
+							grant: privilegeNames(part('grant')?.inner ?? '', namespaces),
+							deny: privilegeNames(part('deny')?.inner ?? '', namespaces),
+							protected: Boolean(part('protected')),
+							inherited: inherited ? decodeXmlEntities(xmlInner(inherited.inner, 'href') ?? '') : null,
+						};
+					});
+
+	return {
+		href: res?.href ?? null,
+		owner: props.owner === undefined ? null : decodeXmlEntities(xmlInner(props.owner, 'href') ?? '') || null,
+		currentUserPrivileges:
+			props['current-user-privilege-set'] === undefined
+				? null
+				: privilegeNames(props['current-user-privilege-set'], namespaces),
+		acl,
+		failedProperties,
+	};
+}
+
+// Build the body of an ACL request (RFC 3744 section 8.1) from normalized entries
+export function buildAclBody(
+	aces: Array<{ principal: string; invert?: boolean; grant?: string[]; deny?: string[] }>,
+): string {
+	const registry = createNamespaceRegistry();
+	const principalXml = (principal: string) => {
+		if (ACL_PRINCIPAL_KEYWORDS.includes(principal)) return `<D:${principal}/>`;
+		if (principal.startsWith('property:')) {
+			const { namespace, name } = parsePropertyKey(principal.slice('property:'.length));
+			const { tag, decl } = registry.qualify(namespace, name);
+			return `<D:property><${tag}${decl}/></D:property>`;
+		}
+		return `<D:href>${escapeXml(principal)}</D:href>`;
+	};
+	const privilegesXml = (privileges: string[]) =>
+		privileges
+			.map((key) => {
+				const { namespace, name } = parsePropertyKey(key);
+				const { tag, decl } = registry.qualify(namespace, name);
+				return `<D:privilege><${tag}${decl}/></D:privilege>`;
+			})
+			.join('');
+	const entries = aces
+		.map((ace) => {
+			const principal = `<D:principal>${principalXml(ace.principal)}</D:principal>`;
+			const grant = ace.grant?.length ? `\n\t\t<D:grant>${privilegesXml(ace.grant)}</D:grant>` : '';
+			const deny = ace.deny?.length ? `\n\t\t<D:deny>${privilegesXml(ace.deny)}</D:deny>` : '';
+			return `\n\t<D:ace>\n\t\t${ace.invert ? `<D:invert>${principal}</D:invert>` : principal}${grant}${deny}\n\t</D:ace>`;
+		})
+		.join('');
+	return `<?xml version="1.0" encoding="utf-8"?>
+<D:acl xmlns:D="DAV:"${registry.declarations()}>${entries}
+</D:acl>`;
+}
+
+export interface ArchiveEntry {
+	name: string;
+	data: Buffer;
+	modified?: Date;
+}
+
+export interface ZipEntry {
+	name: string;
+	isDirectory: boolean;
+	size: number;
+	modified: Date;
+	extract: () => Buffer;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+	let c = n;
+	for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+	return c >>> 0;
+});
+
+export function crc32(data: Buffer): number {
+	let crc = 0xffffffff;
+	for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+const toDosDateTime = (date: Date) => ({
+	time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+	date: (Math.max(0, date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+// Build a zip archive (deflate, or stored when compression does not help). Sizes are limited to
+// 4 GB and 65535 entries since no ZIP64 records are written.
+export function createZip(entries: ArchiveEntry[]): Buffer {
+	if (entries.length > 0xffff) throw new Error('Too many files for a zip archive (max 65535)');
+	const locals: Buffer[] = [];
+	const centrals: Buffer[] = [];
+	let offset = 0;
+	for (const entry of entries) {
+		const name = Buffer.from(entry.name, 'utf8');
+		const deflated = deflateRawSync(entry.data);
+		const stored = deflated.length >= entry.data.length;
+		const content = stored ? entry.data : deflated;
+		if (entry.data.length > 0xfffffffe || offset + content.length > 0xfffffffe) {
+			throw new Error('Archive too large for the zip format (max 4 GB)');
+		}
+		const { time, date } = toDosDateTime(entry.modified ?? new Date());
+		const crc = crc32(entry.data);
+
+		const local = Buffer.alloc(30);
+		local.writeUInt32LE(0x04034b50, 0);
+		local.writeUInt16LE(20, 4); // version needed to extract
+		local.writeUInt16LE(0x0800, 6); // UTF-8 names
+		local.writeUInt16LE(stored ? 0 : 8, 8);
+		local.writeUInt16LE(time, 10);
+		local.writeUInt16LE(date, 12);
+		local.writeUInt32LE(crc, 14);
+		local.writeUInt32LE(content.length, 18);
+		local.writeUInt32LE(entry.data.length, 22);
+		local.writeUInt16LE(name.length, 26);
+		locals.push(local, name, content);
+
+		const central = Buffer.alloc(46);
+		central.writeUInt32LE(0x02014b50, 0);
+		central.writeUInt16LE(20, 4); // version made by
+		central.writeUInt16LE(20, 6);
+		central.writeUInt16LE(0x0800, 8);
+		central.writeUInt16LE(stored ? 0 : 8, 10);
+		central.writeUInt16LE(time, 12);
+		central.writeUInt16LE(date, 14);
+		central.writeUInt32LE(crc, 16);
+		central.writeUInt32LE(content.length, 20);
+		central.writeUInt32LE(entry.data.length, 24);
+		central.writeUInt16LE(name.length, 28);
+		central.writeUInt32LE(offset, 42);
+		centrals.push(central, name);
+
+		offset += local.length + name.length + content.length;
+	}
+	const centralSize = centrals.reduce((sum, b) => sum + b.length, 0);
+	const end = Buffer.alloc(22);
+	end.writeUInt32LE(0x06054b50, 0);
+	end.writeUInt16LE(entries.length, 8);
+	end.writeUInt16LE(entries.length, 10);
+	end.writeUInt32LE(centralSize, 12);
+	end.writeUInt32LE(offset, 16);
+	return Buffer.concat([...locals, ...centrals, end]);
+}
+
+// Build a gzip-compressed tar archive (ustar). Long paths are split into prefix and name.
+export function createTarGz(entries: ArchiveEntry[]): Buffer {
+	const blocks: Buffer[] = [];
+	for (const entry of entries) {
+		let name = entry.name;
+		let prefix = '';
+		if (Buffer.byteLength(name) > 100) {
+			const cut = name.lastIndexOf('/', name.length - 1);
+			prefix = cut > 0 ? name.slice(0, cut) : '';
+			name = cut > 0 ? name.slice(cut + 1) : name;
+			if (Buffer.byteLength(name) > 100 || Buffer.byteLength(prefix) > 155) {
+				throw new Error(`Path too long for a tar archive: ${entry.name}`);
+			}
+		}
+		const header = Buffer.alloc(512);
+		const octal = (value: number, length: number) => value.toString(8).padStart(length - 1, '0') + '\0';
+		header.write(name, 0, 100, 'utf8');
+		header.write(octal(0o644, 8), 100, 'ascii');
+		header.write(octal(0, 8), 108, 'ascii');
+		header.write(octal(0, 8), 116, 'ascii');
+		header.write(octal(entry.data.length, 12), 124, 'ascii');
+		header.write(octal(Math.floor((entry.modified ?? new Date()).getTime() / 1000), 12), 136, 'ascii');
+		header.write('        ', 148, 'ascii'); // checksum is computed with spaces in its field
+		header.write('0', 156, 'ascii');
+		header.write('ustar\0', 257, 'ascii');
+		header.write('00', 263, 'ascii');
+		header.write(prefix, 345, 155, 'utf8');
+		let checksum = 0;
+		for (const byte of header) checksum += byte;
+		header.write(octal(checksum, 7) + ' ', 148, 'ascii');
+		blocks.push(header, entry.data, Buffer.alloc((512 - (entry.data.length % 512)) % 512));
+	}
+	blocks.push(Buffer.alloc(1024));
+	return gzipSync(Buffer.concat(blocks));
+}
+
+// List the entries of a zip archive. Contents are only inflated when extract() is called and never
+// beyond the size recorded in the archive. Entry names that would escape the target folder are rejected.
+export function readZip(data: Buffer): ZipEntry[] {
+	let end = -1;
+	for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+		if (data.readUInt32LE(i) === 0x06054b50) {
+			end = i;
+			break;
+		}
+	}
+	if (end < 0) throw new Error('Not a zip archive');
+	const count = data.readUInt16LE(end + 10);
+	let pos = data.readUInt32LE(end + 16);
+	const entries: ZipEntry[] = [];
+	for (let n = 0; n < count; n++) {
+		if (data.readUInt32LE(pos) !== 0x02014b50) throw new Error('Corrupt zip central directory');
+		const flags = data.readUInt16LE(pos + 8);
+		const method = data.readUInt16LE(pos + 10);
+		const time = data.readUInt16LE(pos + 12);
+		const date = data.readUInt16LE(pos + 14);
+		// CRC and sizes come from the central directory: streaming writers (flag bit 3) leave them zero in
+		// the local header and append them in a data descriptor instead
+		const crc = data.readUInt32LE(pos + 16);
+		const compressedSize = data.readUInt32LE(pos + 20);
+		const size = data.readUInt32LE(pos + 24);
+		const nameLength = data.readUInt16LE(pos + 28);
+		const extraLength = data.readUInt16LE(pos + 30);
+		const commentLength = data.readUInt16LE(pos + 32);
+		const localOffset = data.readUInt32LE(pos + 42);
+		const rawName = data.subarray(pos + 46, pos + 46 + nameLength);
+		pos += 46 + nameLength + extraLength + commentLength;
+
+		const name = rawName.toString(flags & 0x0800 ? 'utf8' : 'latin1').replace(/\\/g, '/');
+		const segments = name.split('/').filter(Boolean);
+		// Segments are also checked percent-decoded, since DAV paths built from them may be decoded again
+		const unsafeSegment = (segment: string) => {
+			let decoded = segment;
+			try {
+				decoded = decodeURIComponent(segment);
+			} catch {
+				// not percent-encoded
+			}
+			return [segment, decoded].some((s) => s === '.' || s === '..' || /[\\/\0]/.test(s));
+		};
+		if (name.startsWith('/') || /^[a-z]:/i.test(name) || segments.some(unsafeSegment)) {
+			throw new Error(`Unsafe path in zip archive: ${name}`);
+		}
+		if (flags & 0x0001) throw new Error(`Encrypted zip entries are not supported: ${name}`);
+		if (method !== 0 && method !== 8) throw new Error(`Unsupported compression method ${method} for ${name}`);
+		entries.push({
+			name: segments.join('/'),
+			isDirectory: name.endsWith('/'),
+			size,
+			modified: new Date(
+				1980 + (date >> 9),
+				((date >> 5) & 0x0f) - 1,
+				date & 0x1f,
+				time >> 11,
+				(time >> 5) & 0x3f,
+				(time & 0x1f) * 2,
+			),
+			extract: () => {
+				// The local header is only used to find where the data starts
+				const start = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+				const content = data.subarray(start, start + compressedSize);
+				const output = method === 8 ? inflateRawSync(content, { maxOutputLength: Math.max(1, size) }) : content;
+				if (output.length !== size || crc32(output) !== crc) {
+					throw new Error(`Corrupt zip entry: ${name}`);
+				}
+				return output;
+			},
+		});
+	}
+	return entries;
+}
+
+// Header values may arrive as arrays when a server repeats a header (e.g. several DAV: lines)
+const headerList = (value: unknown): string[] =>
+	(Array.isArray(value) ? value : [value])
+		.flatMap((v) => String(v ?? '').split(','))
+		.map((v) => v.trim())
+		.filter(Boolean);
+
+// Interpret the headers of an OPTIONS response: the DAV compliance classes (RFC 4918 section 10.1 and
+// the classes added by later RFCs), the Allow methods and MS-Author-Via, as structured flags.
+export function parseDavCapabilities(headers: Record<string, unknown>): IDataObject {
+	const lower: Record<string, unknown> = {};
+	for (const [name, value] of Object.entries(headers ?? {})) lower[name.toLowerCase()] = value;
+	// Compliance classes may be URIs in angle brackets, e.g. <http://apache.org/dav/propset/fs/1>
+	const davClasses = headerList(lower.dav).map((c) => c.replace(/^<(.*)>$/, '$1'));
+	const hasClass = (name: string) => davClasses.some((c) => c.toLowerCase() === name);
+	const allow = headerList(lower.allow).map((m) => m.toUpperCase());
+	const allows = (method: string) => allow.includes(method);
+	const msAuthorVia = headerList(lower['ms-author-via']);
+	const dasl = headerList(lower.dasl);
+
+	return {
+		davClasses,
+		allow,
+		msAuthorVia,
+		dasl,
+		server: (lower.server as string | undefined) ?? null,
+		compliance: {
+			class1: hasClass('1'),
+			class2: hasClass('2'),
+			class3: hasClass('3'),
+			accessControl: hasClass('access-control'),
+			calendarAccess: hasClass('calendar-access'),
+			calendarAutoSchedule: hasClass('calendar-auto-schedule'),
+			addressbook: hasClass('addressbook'),
+			extendedMkcol: hasClass('extended-mkcol'),
+			versionControl: hasClass('version-control'),
+		},
+		methods: {
+			copy: allows('COPY'),
+			delete: allows('DELETE'),
+			get: allows('GET'),
+			lock: allows('LOCK'),
+			mkcol: allows('MKCOL'),
+			move: allows('MOVE'),
+			propfind: allows('PROPFIND'),
+			proppatch: allows('PROPPATCH'),
+			put: allows('PUT'),
+			report: allows('REPORT'),
+			search: allows('SEARCH'),
+			unlock: allows('UNLOCK'),
+		},
+		supports: {
+			// WebDAV is usable when the server claims class 1 or, as some servers omit the DAV header on
+			// the root, when MS-Author-Via says DAV (Microsoft clients rely on it)
+			webdav: hasClass('1') || msAuthorVia.some((v) => v.toUpperCase() === 'DAV'),
+			// An empty Allow header says nothing, so the class alone decides then
+			locking: hasClass('2') && (!allow.length || allows('LOCK')),
+			acl: hasClass('access-control') && (!allow.length || allows('ACL')),
+			search: allows('SEARCH') || dasl.length > 0,
+			versioning: hasClass('version-control') || allows('VERSION-CONTROL'),
+			// Nextcloud announces its own nextcloud-*/nc-* classes; only Nextcloud accepts chunking v2 uploads
+			nextcloudChunking: davClasses.some((c) => /^(nextcloud|nc)-/i.test(c)),
+			// SabreDAV PATCH with X-Update-Range
+			partialUpdate: hasClass('sabredav-partialupdate'),
+		},
+	};
+}
+
+// Path helpers bound to the Base URL of a credential. normalizePath percent-encodes a server-relative path
+// segment by segment (keeping existing escapes) and rejects absolute URLs to avoid SSRF and credential
+// leakage; hrefToPath turns an href returned by the server into a path relative to the Base URL.
+export function createPathHelpers(node: INode, baseRoot: string) {
+	let basePath = baseRoot.replace(/^https?:\/\/[^/]+/i, '');
+	try {
+		basePath = decodeURIComponent(basePath);
+	} catch {
+		// keep the raw path when it is not valid percent-encoding
+	}
+	return {
+		basePath,
+		normalizePath(p: string): string {
+			if (!p || p === '/') return '/';
+			if (/^https?:\/\//i.test(p)) {
+				throw new NodeOperationError(node, 'Absolute URLs are not allowed in path fields. Use a server-relative path starting with "/".');
+			}
+			const encoded = (p.startsWith('/') ? p.slice(1) : p)
+				.split('/')
+				.map((seg) => {
+					if (!seg) return '';
+					try {
+						return encodeURIComponent(decodeURIComponent(seg));
+					} catch {
+						return encodeURIComponent(seg);
+					}
+				})
+				.join('/');
+			return `/${encoded}`;
+		},
+		hrefToPath(href: string): string {
+			let p = href.replace(/^https?:\/\/[^/]+/i, '');
+			if (basePath && p.startsWith(basePath)) p = p.slice(basePath.length);
+			return p.startsWith('/') ? p : `/${p}`;
+		},
+	};
+}
+
+export type PathHelpers = ReturnType<typeof createPathHelpers>;
+
+export interface WalkOptions {
+	maxDepth?: number;
+	limit?: number;
+	include?: (entry: IDataObject) => boolean;
+	checksums?: boolean;
+}
+
+// Walk a collection with Depth: 1 PROPFIND requests, since many servers reject Depth: infinity.
+// "propfind" sends a Depth: 1 PROPFIND with the given body to a server-relative URL and returns the full
+// response. Every descendant up to maxDepth (0 = unlimited) is visited; "include" decides which ones are
+// returned, so filtered-out folders are still traversed. With "checksums" the oc:checksums of
+// each file are requested too (Nextcloud/ownCloud) and returned as algorithm -> hex digest.
+export function createCollectionWalker(paths: PathHelpers, propfind: (url: string, body: string) => Promise<any>) {
+	const { normalizePath, hrefToPath } = paths;
+	return async (root: string, opts: WalkOptions = {}): Promise<IDataObject[]> => {
+		const maxDepth = opts.maxDepth && opts.maxDepth > 0 ? opts.maxDepth : Infinity;
+		const limit = opts.limit ?? Infinity;
+		const rootPath = hrefToPath(decodeURIComponent(normalizePath(root))).replace(/\/$/, '');
+		const results: IDataObject[] = [];
+		const visited = new Set<string>([rootPath || '/']);
+		const queue: Array<{ dir: string; depth: number }> = [{ dir: rootPath || '/', depth: 0 }];
+		while (queue.length && results.length < limit) {
+			const { dir, depth } = queue.shift()!;
+			const response = await propfind(
+				normalizePath(dir),
+				`<?xml version="1.0" encoding="utf-8"?>
+<D:propfind xmlns:D="DAV:"${opts.checksums ? ' xmlns:oc="http://owncloud.org/ns"' : ''}>
+	<D:prop>
+		<D:resourcetype/>
+		<D:getcontenttype/>
+		<D:getcontentlength/>
+		<D:getlastmodified/>
+		<D:getetag/>
+		<D:displayname/>${opts.checksums ? '\n\t\t<oc:checksums/>' : ''}
+	</D:prop>
+</D:propfind>`,
+			);
+			for (const res of parsePropfindResponse(response.data ?? response.body)) {
+				const entryPath = hrefToPath(res.href as string).replace(/\/$/, '') || '/';
+				if (visited.has(entryPath)) continue;
+				visited.add(entryPath);
+				const entry: IDataObject = {
+					path: entryPath,
+					relativePath: entryPath.slice(rootPath.length + 1),
+					name: entryPath.split('/').pop() ?? '',
+					href: res.href,
+					isCollection: res.isCollection,
+					contentType: res.contentType,
+					contentLength: res.contentLength,
+					lastModified: res.lastModified,
+					etag: res.etag,
+					displayName: res.displayName,
+					depth: depth + 1,
+				};
+				if (opts.checksums) {
+					const raw = (res.props as IDataObject)['oc:checksums'];
+					const text = typeof raw === 'object' && raw !== null ? [Object.values(raw)].flat(2).join(' ') : raw;
+					entry.checksums = Object.fromEntries(parseChecksums(text).map((c) => [c.algorithm, c.value]));
+				}
+				if (!opts.include || opts.include(entry)) {
+					results.push(entry);
+					if (results.length >= limit) break;
+				}
+				if (entry.isCollection && depth + 1 < maxDepth) queue.push({ dir: entryPath, depth: depth + 1 });
+			}
+		}
+		return results;
+	};
+}
@@ -1,4 +1,6 @@
 import type {
+        IBinaryData,
+        IDataObject,
         IExecuteFunctions,
         ILoadOptionsFunctions,
         INodeExecutionData,
@@ -7,7 +9,35 @@ import type {
         INodeTypeDescription,
 } from 'n8n-workflow';
 import { NodeConnectionType, NodeOperationError } from 'n8n-workflow';
+import { createHash } from 'crypto';
+import type { Readable } from 'stream';
 import { webDavFields, webDavOperations } from './WebDavDescription';
+import {
+	buildAclBody,
+	createCollectionWalker,
+	createNamespaceRegistry,
+	createPathHelpers,
+	createTarGz,
+	createZip,
+	decodeXmlEntities,
+	escapeXml,
+	globToRegExp,
+	isValidXmlName,
+	parseAclResponse,
+	parseChecksums,
+	parseDavCapabilities,
+	parseExpectedChecksum,
+	parseMultiStatus,
+	parsePropertyKey,
+	parsePropfindResponse,
+	readChunks,
+	readZip,
+	xmlChildren,
+	xmlElements,
+	xmlInner,
+} from './GenericFunctions';
+import type { RetryOptions } from '../utils/retry';
+import { getRetryOptions, isRetryableError, requestWithRetry, retryDelay } from '../utils/retry';
 
 export class WebDav implements INodeType {
 	description: INodeTypeDescription = {
@@ -29,6 +59,15 @@ export class WebDav implements INodeType {
 				name: 'davApi',
 				required: true,
 			},
+			{
+				name: 'davTargetApi',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['transfer'],
+					},
+				},
+			},
 		],
 		requestDefaults: {
 			baseURL: '={{ $credentials.baseUrl }}',
@@ -49,6 +88,18 @@ export class WebDav implements INodeType {
 						name: 'File',
 						value: 'file',
 					},
+					{
+						name: 'Trash',
+						value: 'trash',
+					},
+					{
+						name: 'Share',
+						value: 'share',
+					},
+					{
+						name: 'Version',
+						value: 'version',
+					},
 				],
 				default: 'file',
 			},
@@ -174,10 +225,9 @@ export class WebDav implements INodeType {
 
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const items = this.getInputData();
-		const returnItems: INodeExecutionData[] = [];
 
 		// Validate credentials.baseUrl early to avoid opaque "Invalid URL" errors
-		const creds = (await this.getCredentials('davApi')) as { baseUrl?: string };
+		const creds = (await this.getCredentials('davApi')) as { baseUrl?: string; username?: string };
 		const baseUrl = creds?.baseUrl?.toString().trim();
 		if (!baseUrl || !/^https?:\/\//i.test(baseUrl)) {
 			throw new NodeOperationError(
@@ -189,29 +239,111 @@ export class WebDav implements INodeType {
 		// Normalize base root for manual URL composition (no trailing slash)
 		const baseRoot = baseUrl.replace(/\/$/, '');
 
-		// Helper to normalize and safely encode a DAV path (handles spaces and special chars)
-		const normalizePath = (p: string): string => {
-			if (!p || p === '/') return '/';
-			// Disallow absolute external URLs to avoid SSRF/credential leakage
-			if (/^https?:\/\//i.test(p)) {
-				throw new NodeOperationError(this.getNode(), 'Absolute URLs are not allowed in path fields. Use a server-relative path starting with "/".');
+		// Helpers to safely encode DAV paths (handles spaces and special chars) and to turn returned hrefs
+		// into paths relative to the Base URL
+		const paths = createPathHelpers(this.getNode(), baseRoot);
+		const { basePath, normalizePath, hrefToPath } = paths;
+
+		// Nextcloud keeps per-user collections such as the trash bin and file versions beside the files tree
+		// (<dav root>/trashbin/<user>, <dav root>/versions/<user>). Derive the DAV root and the user from the Base URL.
+		const origin = baseRoot.match(/^https?:\/\/[^/]+/i)![0];
+		const davRootUrl = (() => {
+			const dav = basePath.match(/^(.*?\/remote\.php\/)(?:dav|webdav)(?:\/|$)/i);
+			const root = dav ? `${dav[1]}dav` : basePath.replace(/\/files\/[^/]+.*$/, '').replace(/\/$/, '');
+			return root ? `${origin}${normalizePath(root)}` : origin;
+		})();
+		const davUser = (userId: unknown): string => {
+			const user = String(userId ?? '').trim() || basePath.match(/\/files\/([^/]+)/)?.[1] || creds?.username;
+			if (!user) {
+				throw new NodeOperationError(this.getNode(), 'Could not determine the user. Set the User ID parameter.');
 			}
-			const raw = p.startsWith('/') ? p.slice(1) : p;
-			const encoded = raw
-				.split('/')
-				.map((seg) => {
-					if (!seg) return '';
-					try {
-						return encodeURIComponent(decodeURIComponent(seg));
-					} catch {
-						return encodeURIComponent(seg);
-					}
-				})
-				.join('/');
-			return `/${encoded}`;
+			return encodeURIComponent(user);
+		};
+
+		const wait = async (ms: number) => await new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+		// Hex digests of a buffer or of a binary in the binary data store, one per algorithm
+		const computeDigests = async (source: Buffer | IBinaryData, algorithms: string[]) => {
+			const hashes = [...new Set(algorithms)].map((algorithm) => [algorithm, createHash(algorithm)] as const);
+			const update = (chunk: Buffer) => hashes.forEach(([, hash]) => hash.update(chunk));
+			if (Buffer.isBuffer(source)) {
+				update(source);
+			} else if (source.id) {
+				for await (const chunk of await this.helpers.getBinaryStream(source.id)) update(Buffer.from(chunk));
+			} else {
+				update(Buffer.from(source.data, 'base64'));
+			}
+			return Object.fromEntries(hashes.map(([algorithm, hash]) => [algorithm, hash.digest('hex')])) as Record<string, string>;
+		};
+		// OC-Checksum (Nextcloud/ownCloud) and, for MD5, Content-MD5 (RFC 1864) headers for an upload
+		const checksumHeaders = (algorithm: string, digest: string): Record<string, string> => ({
+			'OC-Checksum': `${algorithm.toUpperCase()}:${digest}`,
+			...(algorithm === 'md5' ? { 'Content-MD5': Buffer.from(digest, 'hex').toString('base64') } : {}),
+		});
+
+		// Lock tokens are accepted with or without the surrounding angle brackets
+		const cleanLockToken = (t: unknown): string =>
+			String(t ?? '')
+				.trim()
+				.replace(/^<(.*)>$/, '$1');
+
+		// Helper to submit a lock token via the If header (RFC 4918 section 10.4).
+		// A tagged list is used when the lock belongs to a resource other than the request URI.
+		const lockIfHeader = (token: unknown, taggedUrl?: string): Record<string, string> => {
+			const t = cleanLockToken(token);
+			if (!t) return {};
+			return { If: taggedUrl ? `<${taggedUrl}> (<${t}>)` : `(<${t}>)` };
+		};
+
+		// Conditional request headers (RFC 7232) from the shared options. ETags may be given with or
+		// without quotes and as a comma-separated list; dates are sent as HTTP dates.
+		const conditionalHeaders = (options: IDataObject, itemIndex: number): Record<string, string> => {
+			const etags = (v: unknown) =>
+				String(v ?? '')
+					.split(',')
+					.map((t) => t.trim())
+					.filter(Boolean)
+					.map((t) => (t === '*' || /^(W\/)?".*"$/.test(t) ? t : `"${t}"`))
+					.join(', ');
+			const httpDate = (v: unknown, header: string) => {
+				const time = Date.parse(String(v));
+				if (isNaN(time)) {
+					throw new NodeOperationError(this.getNode(), `Invalid date "${v}" for ${header}`, { itemIndex });
+				}
+				return new Date(time).toUTCString();
+			};
+			const headers: Record<string, string> = {};
+			if (etags(options.ifMatch)) headers['If-Match'] = etags(options.ifMatch);
+			if (etags(options.ifNoneMatch)) headers['If-None-Match'] = etags(options.ifNoneMatch);
+			if (options.ifModifiedSince) headers['If-Modified-Since'] = httpDate(options.ifModifiedSince, 'If-Modified-Since');
+			if (options.ifUnmodifiedSince) {
+				headers['If-Unmodified-Since'] = httpDate(options.ifUnmodifiedSince, 'If-Unmodified-Since');
+			}
+			return headers;
 		};
 
-		for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+		// DELETE, COPY and MOVE of a collection answer 207 Multi-Status when some members failed
+		// (RFC 4918 sections 9.6.1 and 9.8.8). The listed members with a non-2xx status are reported with
+		// their DAV:error conditions; any failure makes the whole request unsuccessful.
+		const multiStatusOutcome = (response: any) => {
+			const statusCode = response.statusCode ?? response.status;
+			if (statusCode !== 207) return { success: statusCode >= 200 && statusCode < 300, details: {} };
+			const failed = parseMultiStatus(String(response.data ?? response.body ?? ''))
+				.filter((res) => res.status === null || res.status < 200 || res.status >= 300)
+				.map((res) => ({
+					href: res.href,
+					path: hrefToPath(res.href),
+					statusCode: res.status,
+					error: res.error,
+					description: res.description,
+				}));
+			return { success: failed.length === 0, details: { failed } };
+		};
+
+		const processItem = async (itemIndex: number): Promise<INodeExecutionData[]> => {
+			const returnItems: INodeExecutionData[] = [];
+			// Number of transient failures that were retried for this item
+			let httpRetries = 0;
 			try {
 				const operation = this.getNodeParameter('operation', itemIndex) as string;
 				// const item = items[itemIndex];
@@ -234,6 +366,12 @@ export class WebDav implements INodeType {
 					// HTTP error responses (n8n wraps errors; try a few shapes)
 					const status = e?.statusCode ?? e?.response?.status ?? e?.cause?.response?.status;
 					const statusText = e?.response?.statusText ?? e?.cause?.response?.statusText;
+					if (Number(status) === 416) {
+						return `HTTP 416 Range Not Satisfiable for ${base}. The requested byte range lies outside the file.`;
+					}
+					if (Number(status) === 423) {
+						return `HTTP 423 Locked for ${base}. The resource is locked by another client; pass its lock token under Options > Lock Token or unlock it first.`;
+					}
 					if (status) {
 						return `HTTP ${status}${statusText ? ` ${statusText}` : ''} for ${base}.`;
 					}
@@ -242,7 +380,13 @@ export class WebDav implements INodeType {
 					return `${msg} (${base})`;
 				};
 
-				const doRequest = async (opts: Parameters<typeof this.helpers.httpRequest>[0]) => {
+				// Requests for the Transfer target pass absolute URLs and the target credential type. "retry" false
+				// turns off the Retry option for requests that must never be sent twice; retry options replace it.
+				const doRequest = async (
+					opts: Parameters<typeof this.helpers.httpRequest>[0],
+					credentialType = 'davApi',
+					retry: boolean | RetryOptions = true,
+				) => {
 					try {
 						// Compose absolute URL when only a path is provided
 						const urlStr = String((opts as any)?.url ?? '');
@@ -254,13 +398,23 @@ export class WebDav implements INodeType {
 						}
 						// Use authenticated request if available
 						const hAny = this.helpers as any;
-						if (typeof hAny.httpRequestWithAuthentication === 'function') {
-							return await hAny.httpRequestWithAuthentication.call(this, 'davApi', opts as any);
-						}
-						if (typeof hAny.requestWithAuthentication === 'function') {
-							return await hAny.requestWithAuthentication.call(this, 'davApi', opts as any);
-						}
-						return await this.helpers.httpRequest(opts as any);
+						const send = async () => {
+							if (typeof hAny.httpRequestWithAuthentication === 'function') {
+								return await hAny.httpRequestWithAuthentication.call(this, credentialType, opts as any);
+							}
+							if (typeof hAny.requestWithAuthentication === 'function') {
+								return await hAny.requestWithAuthentication.call(this, credentialType, opts as any);
+							}
+							return await this.helpers.httpRequest(opts as any);
+						};
+						// A streamed upload body can only be sent once
+						if (!retry || typeof (opts as any)?.body?.pipe === 'function') return await send();
+						return await requestWithRetry(
+							send,
+							() => (retry === true ? getRetryOptions(this.getNodeParameter('retry', itemIndex, {})) : retry),
+							() => httpRetries++,
+							opts.method,
+						);
 					} catch (e: any) {
 						const u = (opts as any).__displayUrl ?? (opts as any)?.url;
 						const resource = this.getNodeParameter('resource', itemIndex) as string;
@@ -269,22 +423,170 @@ export class WebDav implements INodeType {
 					}
 				};
 
+				const walkCollection = createCollectionWalker(
+					paths,
+					async (url, body) =>
+						await doRequest({
+							method: 'PROPFIND' as any,
+							url,
+							body,
+							headers: { Depth: '1', 'Content-Type': 'application/xml' },
+							returnFullResponse: true,
+						}),
+				);
+
+				// MKCOL a single folder and return the server's status: 201 Created, or 405 Method Not Allowed when
+				// something already exists there. A Depth 0 PROPFIND then makes sure that it is a collection and
+				// not a file. Absolute URLs and the credential type address the Transfer target.
+				const createCollection = async (folder: string, url = normalizePath(folder), credentialType = 'davApi'): Promise<number> => {
+					const response = await doRequest(
+						{ method: 'MKCOL' as any, url, ignoreHttpStatusErrors: true, returnFullResponse: true },
+						credentialType,
+					);
+					const statusCode = response.statusCode ?? response.status;
+					if (statusCode === 201) return statusCode;
+					if (statusCode !== 405) {
+						throw new NodeOperationError(this.getNode(), toFriendlyError({ statusCode }, folder, 'file'), { itemIndex });
+					}
+					const probe = await doRequest(
+						{
+							method: 'PROPFIND' as any,
+							url,
+							body: `<?xml version="1.0" encoding="utf-8"?>
+<D:propfind xmlns:D="DAV:"><D:prop><D:resourcetype/></D:prop></D:propfind>`,
+							headers: { Depth: '0', 'Content-Type': 'application/xml' },
+							ignoreHttpStatusErrors: true,
+							returnFullResponse: true,
+						},
+						credentialType,
+					);
+					const probeStatus = probe.statusCode ?? probe.status;
+					if (probeStatus !== 207 || parsePropfindResponse(probe.data ?? probe.body)[0]?.isCollection !== true) {
+						throw new NodeOperationError(
+							this.getNode(),
+							`Cannot create folder "${folder}": a resource that is not a folder already exists at this path`,
+							{ itemIndex },
+						);
+					}
+					return statusCode;
+				};
+
+				// Create a folder and any missing parents, top-down. An existing collection counts as success.
+				// Returns the folders that were created and the status of the MKCOL for the folder itself.
+				const ensureCollection = async (folderPath: string): Promise<{ created: string[]; statusCode: number | null }> => {
+					const segs = folderPath.split('/').filter(Boolean);
+					const created: string[] = [];
+					let statusCode: number | null = null;
+					for (let i = 1; i <= segs.length; i++) {
+						const folder = `/${segs.slice(0, i).join('/')}`;
+						statusCode = await createCollection(folder);
+						if (statusCode === 201) created.push(folder);
+					}
+					return { created, statusCode };
+				};
+
+				// Send a request with conditional headers. 304 Not Modified and 412 Precondition Failed are the
+				// expected answers to an unmet condition, so they come back as an outcome instead of an error.
+				// "flags" holds the notModified / preconditionFailed output fields when conditions were sent.
+				const conditionalRequest = async (
+					opts: Parameters<typeof this.helpers.httpRequest>[0],
+					conditions: Record<string, string>,
+				) => {
+					if (!Object.keys(conditions).length) {
+						return { response: await doRequest(opts), outcome: undefined, flags: {} };
+					}
+					const displayUrl = String(opts.url);
+					const response = await doRequest({
+						...opts,
+						headers: { ...opts.headers, ...conditions },
+						ignoreHttpStatusErrors: true,
+					});
+					const statusCode = response.statusCode ?? response.status;
+					let outcome: 'notModified' | 'preconditionFailed' | undefined;
+					if (statusCode === 304) outcome = 'notModified';
+					else if (statusCode === 412) outcome = 'preconditionFailed';
+					else if (statusCode >= 400) {
+						(response.body as Readable | undefined)?.destroy?.();
+						throw new NodeOperationError(this.getNode(), toFriendlyError({ statusCode }, displayUrl, 'file'), { itemIndex });
+					}
+					if (outcome) (response.body as Readable | undefined)?.destroy?.();
+					return {
+						response,
+						outcome,
+						flags: { notModified: outcome === 'notModified', preconditionFailed: outcome === 'preconditionFailed' },
+					};
+				};
+
 				switch (operation) {
                                         case 'get': {
                                                 const path = this.getNodeParameter('path', itemIndex, '') as string;
+                                                const options = this.getNodeParameter('options', itemIndex, {}) as IDataObject;
 
-                                                const response = await doRequest({
-                                                        method: 'GET',
-                                                        url: normalizePath(path),
-                                                        // ensure raw bytes for binary output
-                                                        returnFullResponse: true,
-                                                } as Parameters<typeof this.helpers.httpRequest>[0]);
+                                                // Optional byte range: "bytes=start-end" or the last N bytes ("bytes=-N")
+                                                let rangeHeader: string | undefined;
+                                                if (options.range === 'startEnd') {
+                                                        const start = Number(options.rangeStart ?? 0);
+                                                        const end = Number(options.rangeEnd ?? -1);
+                                                        // A malformed Range header is ignored by most servers, which would silently download the whole file
+                                                        if (!Number.isInteger(start) || start < 0 || !Number.isInteger(end) || end < -1) {
+                                                                throw new NodeOperationError(
+                                                                        this.getNode(),
+                                                                        'Range Start must be a whole number of at least 0, and Range End at least 0 or -1 for the end of the file',
+                                                                        { itemIndex },
+                                                                );
+                                                        }
+                                                        if (end >= 0 && end < start) {
+                                                                throw new NodeOperationError(this.getNode(), `Range End (${end}) must not be before Range Start (${start})`, { itemIndex });
+                                                        }
+                                                        rangeHeader = `bytes=${start}-${end >= 0 ? end : ''}`;
+                                                } else if (options.range === 'suffix') {
+                                                        const length = Number(options.rangeLength ?? 1024);
+                                                        if (!Number.isInteger(length) || length < 1) {
+                                                                throw new NodeOperationError(this.getNode(), 'Range Length must be a whole number of at least 1', { itemIndex });
+                                                        }
+                                                        rangeHeader = `bytes=-${length}`;
+                                                }
+
+                                                const checksumAlgorithm = (options.checksumAlgorithm as string) || 'sha256';
+                                                const expectedChecksum = parseExpectedChecksum(String(options.expectedChecksum ?? ''), checksumAlgorithm);
+                                                if (String(options.expectedChecksum ?? '').trim() && !expectedChecksum) {
+                                                        throw new NodeOperationError(
+                                                                this.getNode(),
+                                                                'Expected Checksum must be a hex digest, optionally prefixed with MD5:, SHA1: or SHA256:',
+                                                                { itemIndex },
+                                                        );
+                                                }
+
+                                                const { response, outcome, flags } = await conditionalRequest(
+                                                        {
+                                                                method: 'GET',
+                                                                url: normalizePath(path),
+                                                                headers: rangeHeader ? { Range: rangeHeader } : {},
+                                                                // stream the body straight into the binary data store
+                                                                encoding: 'stream',
+                                                                returnFullResponse: true,
+                                                        } as Parameters<typeof this.helpers.httpRequest>[0],
+                                                        conditionalHeaders(options, itemIndex),
+                                                );
+                                                if (outcome) {
+                                                        returnItems.push({
+                                                                json: {
+                                                                        path,
+                                                                        success: false,
+                                                                        statusCode: response.statusCode ?? response.status,
+                                                                        etag: response.headers?.etag ?? null,
+                                                                        ...flags,
+                                                                },
+                                                        });
+                                                        break;
+                                                }
 
                                                 const rawData =
                                                         (response.data ?? response.body) as
                                                                 | Buffer
                                                                 | ArrayBuffer
                                                                 | string
+                                                                | NodeJS.ReadableStream
                                                                 | undefined;
                                                 if (rawData === undefined) {
                                                         throw new NodeOperationError(
@@ -294,13 +596,16 @@ export class WebDav implements INodeType {
                                                         );
                                                 }
 
-                                                let dataBuffer: Buffer;
+                                                let dataBuffer: Buffer | undefined;
+                                                let dataStream: Readable | undefined;
                                                 if (Buffer.isBuffer(rawData)) {
                                                     dataBuffer = rawData as Buffer;
                                                 } else if (typeof rawData === 'string') {
                                                     dataBuffer = Buffer.from(rawData, 'utf8');
                                                 } else if (rawData instanceof ArrayBuffer) {
                                                     dataBuffer = Buffer.from(new Uint8Array(rawData));
+                                                } else if (typeof (rawData as Readable).pipe === 'function') {
+                                                    dataStream = rawData as Readable;
                                                 } else {
                                                     throw new NodeOperationError(
                                                         this.getNode(),
@@ -309,10 +614,13 @@ export class WebDav implements INodeType {
                                                     );
                                                 }
                                                 const contentType = response.headers['content-type'] as string | undefined;
+                                                const downloadAs = (options.downloadAs as string) || 'binary';
                                                 if (
+                                                        downloadAs === 'binary' &&
                                                         contentType &&
                                                         contentType.toLowerCase().includes('application/json')
                                                 ) {
+                                                        dataStream?.destroy();
                                                         throw new NodeOperationError(
                                                                 this.getNode(),
                                                                 `Expected binary response but received JSON from WebDAV for path "${path}"`,
@@ -324,25 +632,117 @@ export class WebDav implements INodeType {
                                                 const etag = response.headers['etag'] as string | undefined;
                                                 const segs = normalizePath(path).split('/').filter(Boolean);
                                                 const fileName = segs[segs.length - 1] || 'file';
-                                                const binary = await this.helpers.prepareBinaryData(
-                                                        dataBuffer,
-                                                        fileName,
-                                                        contentType,
-                                                );
+                                                let binary: IBinaryData | undefined;
+                                                let data: IDataObject[keyof IDataObject];
+                                                if (downloadAs === 'binary') {
+                                                        binary = await this.helpers.prepareBinaryData(
+                                                                (dataBuffer ?? dataStream) as Buffer | Readable,
+                                                                fileName,
+                                                                contentType,
+                                                        );
+                                                } else {
+                                                        // Text and JSON are returned in the item itself, decoded with the charset the server sent
+                                                        if (!dataBuffer) {
+                                                                const chunks: Buffer[] = [];
+                                                                for await (const chunk of dataStream as Readable) chunks.push(Buffer.from(chunk));
+                                                                dataBuffer = Buffer.concat(chunks);
+                                                        }
+                                                        const charset = contentType?.match(/charset="?([^";]+)"?/i)?.[1]?.trim() || 'utf-8';
+                                                        let text: string;
+                                                        try {
+                                                                text = new TextDecoder(charset).decode(dataBuffer);
+                                                        } catch {
+                                                                text = dataBuffer.toString('utf8');
+                                                        }
+                                                        if (downloadAs === 'json') {
+                                                                try {
+                                                                        data = JSON.parse(text.replace(/^\uFEFF/, ''));
+                                                                } catch (e) {
+                                                                        throw new NodeOperationError(
+                                                                                this.getNode(),
+                                                                                `Content of "${path}" is not valid JSON: ${(e as Error).message}`,
+                                                                                { itemIndex },
+                                                                        );
+                                                                }
+                                                        } else {
+                                                                data = text;
+                                                        }
+                                                }
 
                                                 const statusCode = response.statusCode ?? response.status;
+
+                                                // Verify against the expected checksum, else against the one the server stores. Partial
+                                                // content cannot be compared with a checksum of the whole file.
+                                                let reference = expectedChecksum;
+                                                if (!reference && options.verifyChecksum === true && statusCode !== 206) {
+                                                        let serverChecksums = parseChecksums(response.headers['oc-checksum']);
+                                                        if (!serverChecksums.length) {
+                                                                const probe = await doRequest({
+                                                                        method: 'PROPFIND' as any,
+                                                                        url: normalizePath(path),
+                                                                        body: `<?xml version="1.0" encoding="utf-8"?>
+<D:propfind xmlns:D="DAV:" xmlns:oc="http://owncloud.org/ns">
+	<D:prop>
+		<oc:checksums/>
+	</D:prop>
+</D:propfind>`,
+                                                                        headers: { Depth: '0', 'Content-Type': 'application/xml' },
+                                                                        returnFullResponse: true,
+                                                                });
+                                                                serverChecksums = parseChecksums(
+                                                                        xmlElements(String(probe.data ?? probe.body ?? ''), 'checksum').join(' '),
+                                                                );
+                                                        }
+                                                        reference =
+                                                                serverChecksums.find((c) => c.algorithm === checksumAlgorithm) ?? serverChecksums[0] ?? null;
+                                                }
+                                                const digests = await computeDigests((dataBuffer ?? binary)!, [
+                                                        checksumAlgorithm,
+                                                        ...(reference ? [reference.algorithm] : []),
+                                                ]);
+                                                const checksumVerified =
+                                                        reference && statusCode !== 206 ? digests[reference.algorithm] === reference.value : null;
+                                                if (checksumVerified === false && options.checksumMismatch !== 'flag') {
+                                                        throw new NodeOperationError(
+                                                                this.getNode(),
+                                                                `Checksum mismatch for "${path}": expected ${reference!.algorithm.toUpperCase()}:${reference!.value}, got ${reference!.algorithm.toUpperCase()}:${digests[reference!.algorithm]}`,
+                                                                { itemIndex },
+                                                        );
+                                                }
+
+                                                // 206 Partial Content: "Content-Range: bytes 0-99/1234" (total may be "*")
+                                                const contentRange = response.headers['content-range'] as string | undefined;
+                                                const rangeMatch = contentRange?.match(/bytes\s+(\d+)-(\d+)\/(\d+|\*)/i);
                                                 returnItems.push({
                                                         json: {
                                                                 path,
                                                                 contentType: contentType ?? 'application/octet-stream',
                                                                 contentLength: contentLength
                                                                         ? Number(contentLength)
-                                                                        : dataBuffer.length,
+                                                                        : (dataBuffer?.length ?? (binary?.fileSize ? Number(binary.fileSize) : null)),
                                                                 lastModified: lastModified ?? null,
                                                                 etag: etag ?? null,
                                                                 statusCode,
+                                                                checksum: digests[checksumAlgorithm],
+                                                                checksumAlgorithm,
+                                                                checksumVerified,
+                                                                ...(reference
+                                                                        ? { expectedChecksum: `${reference.algorithm.toUpperCase()}:${reference.value}` }
+                                                                        : {}),
+                                                                ...flags,
+                                                                ...(rangeHeader
+                                                                        ? {
+                                                                                partial: statusCode === 206,
+                                                                                contentRange: contentRange ?? null,
+                                                                                rangeStart: rangeMatch ? Number(rangeMatch[1]) : null,
+                                                                                rangeEnd: rangeMatch ? Number(rangeMatch[2]) : null,
+                                                                                totalSize:
+                                                                                        rangeMatch && rangeMatch[3] !== '*' ? Number(rangeMatch[3]) : null,
+                                                                        }
+                                                                        : {}),
+                                                                ...(binary ? {} : { data }),
                                                         },
-                                                        binary: { data: binary },
+                                                        ...(binary ? { binary: { data: binary } } : {}),
                                                 });
                                                 break;
                                         }
@@ -350,21 +750,332 @@ export class WebDav implements INodeType {
 						const path = this.getNodeParameter('path', itemIndex, '') as string;
 						const binaryPropertyName = this.getNodeParameter('binaryPropertyName', itemIndex, 'data') as string;
 						const inputItem = items[itemIndex];
-						if (!inputItem.binary || !inputItem.binary[binaryPropertyName]) {
+						const options = this.getNodeParameter('options', itemIndex, {}) as IDataObject;
+						const inputDataMode = (this.getNodeParameter('inputDataMode', itemIndex, 'binary') as string) || 'binary';
+
+						// Text and JSON content is encoded here; binary content is read from the input item below
+						let payload: { data: Buffer; contentType: string } | undefined;
+						if (inputDataMode === 'text' || inputDataMode === 'json') {
+							const content = inputDataMode === 'text'
+								? String(this.getNodeParameter('fileContent', itemIndex, '') ?? '')
+								: JSON.stringify(inputItem.json ?? {}, null, 2);
+							const mimeType = (this.getNodeParameter('contentType', itemIndex, '') as string).trim()
+								|| (inputDataMode === 'json' ? 'application/json' : 'text/plain');
+							const charset = this.getNodeParameter('charset', itemIndex, 'utf-8') as string;
+							const bufferEncodings: Record<string, BufferEncoding> = {
+								'utf-8': 'utf8',
+								'utf-16le': 'utf16le',
+								'iso-8859-1': 'latin1',
+								'us-ascii': 'ascii',
+							};
+							payload = {
+								data: Buffer.from(content, bufferEncodings[charset] ?? 'utf8'),
+								contentType: /;\s*charset=/i.test(mimeType) ? mimeType : `${mimeType}; charset=${charset}`,
+							};
+						} else if (!inputItem.binary || !inputItem.binary[binaryPropertyName]) {
 							throw new NodeOperationError(this.getNode(), `Input item is missing binary property "${binaryPropertyName}"`, { itemIndex });
 						}
-						const binData = await this.helpers.getBinaryDataBuffer(itemIndex, binaryPropertyName);
-						const contentType = inputItem.binary[binaryPropertyName].mimeType || 'application/octet-stream';
+						const uploadMode = (options.uploadMode as string) || 'single';
+						const conditions = conditionalHeaders(options, itemIndex);
+						if (uploadMode !== 'single' && Object.keys(conditions).length) {
+							throw new NodeOperationError(this.getNode(), 'Conditional headers (If-Match etc.) are only supported with the Single Request upload mode', { itemIndex });
+						}
+						const createdFolders = options.createParents
+							? (await ensureCollection(path.split('/').slice(0, -1).join('/'))).created
+							: undefined;
+						if (uploadMode === 'nextcloud' || uploadMode === 'contentRange') {
+							// Stream binaries kept in the binary data store instead of loading them into memory
+							const binaryMeta = payload ? undefined : inputItem.binary![binaryPropertyName];
+							const contentType = payload?.contentType ?? (binaryMeta?.mimeType || 'application/octet-stream');
+							const chunkSize = Math.max(1, Number(options.chunkSize ?? 10)) * 1024 * 1024;
+							const maxRetries = Math.max(0, Number(options.chunkRetries ?? 3));
+							const checksumAlgorithm = (options.checksumAlgorithm as string) || 'sha256';
+							const hash = createHash(checksumAlgorithm);
+							let checksum = '';
+							// Binaries in the data store are streamed; the source can be opened again to check a resumed prefix
+							let openSource: () => Promise<Buffer | AsyncIterable<Buffer>>;
+							let totalSize: number;
+							if (payload) {
+								const data = payload.data;
+								openSource = async () => data;
+								totalSize = data.length;
+							} else if (binaryMeta?.id) {
+								const binaryId = binaryMeta.id;
+								openSource = async () => await this.helpers.getBinaryStream(binaryId, chunkSize);
+								totalSize = (await this.helpers.getBinaryMetadata(binaryId)).fileSize;
+							} else {
+								const buffer = await this.helpers.getBinaryDataBuffer(itemIndex, binaryPropertyName);
+								openSource = async () => buffer;
+								totalSize = buffer.length;
+							}
+							const targetUrl = `${baseRoot}${normalizePath(path)}`;
+							const resume = options.resumeUpload === true;
+							const uploadId =
+								(options.uploadId as string) ||
+								`n8n-${createHash('sha1').update(`${targetUrl}:${totalSize}`).digest('hex')}`;
 
-						const response = await doRequest({
-							method: 'PUT',
-							url: normalizePath(path),
-							body: binData as unknown as Buffer,
-							headers: {
-								'Content-Type': contentType,
+							// Only a chunk PUT that failed transiently is repeated; chunks already on the server are kept.
+							// Chunk Retries replaces the Retry option for these requests, so attempts do not multiply.
+							const chunkRetry: RetryOptions = { maxRetries, initialDelay: 1000, maxDelay: 30000 };
+							let retries = 0;
+							const putChunk = async (opts: Parameters<typeof this.helpers.httpRequest>[0]) => {
+								const before = httpRetries;
+								try {
+									return await doRequest(opts, 'davApi', chunkRetry);
+								} finally {
+									retries += httpRetries - before;
+								}
+							};
+
+							let chunkIndex = 0;
+							let chunksUploaded = 0;
+							let chunksSkipped = 0;
+							let assemblyVerified = false;
+							let response: any;
+							if (uploadMode === 'nextcloud') {
+								// Nextcloud chunking v2: MKCOL uploads/<user>/<id>, PUT numbered chunks, MOVE .file onto the target
+								const davMatch = baseRoot.match(/^(.*?\/remote\.php\/dav)(?:\/files\/([^/]+))?/i);
+								if (!davMatch) {
+									throw new NodeOperationError(this.getNode(), 'Nextcloud chunked upload requires a Base URL under /remote.php/dav, e.g. https://cloud.example.com/remote.php/dav', { itemIndex });
+								}
+								const userSegment =
+									davMatch[2] ??
+									normalizePath(path).match(/^\/files\/([^/]+)\//)?.[1] ??
+									(creds.username ? encodeURIComponent(creds.username) : '');
+								if (!userSegment) {
+									throw new NodeOperationError(this.getNode(), 'Could not determine the Nextcloud user for chunked upload. Use a path like /files/<user>/... or set a username in the credentials.', { itemIndex });
+								}
+								const uploadUrl = `${davMatch[1]}/uploads/${userSegment}/${encodeURIComponent(uploadId)}`;
+								const chunkHeaders = { Destination: targetUrl, 'OC-Total-Length': String(totalSize) };
+
+								const existing = new Map<number, number>();
+								const probe = await doRequest({
+									method: 'PROPFIND' as any,
+									url: uploadUrl,
+									body: `<?xml version="1.0" encoding="utf-8"?>
+<D:propfind xmlns:D="DAV:"><D:prop><D:getcontentlength/><D:resourcetype/></D:prop></D:propfind>`,
+									headers: { Depth: '1', 'Content-Type': 'application/xml' },
+									ignoreHttpStatusErrors: true,
+									returnFullResponse: true,
+								});
+								const probeStatus = probe.statusCode ?? probe.status;
+								if (probeStatus === 207) {
+									for (const res of parsePropfindResponse(probe.data ?? probe.body)) {
+										const name = String(res.href).replace(/\/$/, '').split('/').pop() ?? '';
+										if (/^\d+$/.test(name) && res.contentLength !== null) {
+											existing.set(Number(name), res.contentLength as number);
+										}
+									}
+								} else {
+									await doRequest({ method: 'MKCOL' as any, url: uploadUrl, headers: chunkHeaders, returnFullResponse: true });
+								}
+
+								for await (const chunk of readChunks(await openSource(), chunkSize)) {
+									chunkIndex++;
+									hash.update(chunk);
+									if (resume && existing.get(chunkIndex) === chunk.length) {
+										chunksSkipped++;
+										continue;
+									}
+									await putChunk({
+										method: 'PUT',
+										url: `${uploadUrl}/${chunkIndex}`,
+										body: chunk,
+										headers: { ...chunkHeaders, 'Content-Type': 'application/octet-stream' },
+										returnFullResponse: true,
+									});
+									chunksUploaded++;
+								}
+
+								checksum = hash.digest('hex');
+								const checksumHeader = `${checksumAlgorithm.toUpperCase()}:${checksum}`;
+								// The MOVE may have assembled the file although its response was lost or a gateway timed
+								// out; a repeated MOVE would then fail with 404. The target is checked before every retry.
+								const isAssembled = async () => {
+									const target = await doRequest({
+										method: 'PROPFIND' as any,
+										url: targetUrl,
+										body: `<?xml version="1.0" encoding="utf-8"?>
+<D:propfind xmlns:D="DAV:" xmlns:oc="http://owncloud.org/ns"><D:prop><D:getcontentlength/><oc:checksums/></D:prop></D:propfind>`,
+										headers: { Depth: '0', 'Content-Type': 'application/xml' },
+										ignoreHttpStatusErrors: true,
+										returnFullResponse: true,
+									});
+									if ((target.statusCode ?? target.status) !== 207) return false;
+									const body = String(target.data ?? target.body ?? '');
+									const stored = parseChecksums(xmlElements(body, 'checksum').join(' '))
+										.find((c) => c.algorithm === checksumAlgorithm);
+									return (
+										parsePropfindResponse(body)[0]?.contentLength === totalSize &&
+										(!stored || stored.value === checksum)
+									);
+								};
+								for (let attempt = 0; ; attempt++) {
+									let failure: unknown;
+									try {
+										response = await doRequest(
+											{
+												method: 'MOVE' as any,
+												url: `${uploadUrl}/.file`,
+												headers: {
+													...chunkHeaders,
+													Overwrite: 'T',
+													...lockIfHeader(options.lockId, targetUrl),
+													// Nextcloud stores the checksum of the assembled file
+													...(options.sendChecksum === false ? {} : { 'OC-Checksum': checksumHeader }),
+												},
+												ignoreHttpStatusErrors: true,
+												returnFullResponse: true,
+											},
+											'davApi',
+											false,
+										);
+									} catch (e) {
+										// Connection failures; a server that cannot be reached fails the check below as well
+										failure = e;
+										response = undefined;
+									}
+									if (!failure && !isRetryableError(response)) break;
+									if (await isAssembled()) {
+										assemblyVerified = true;
+										break;
+									}
+									if (attempt >= maxRetries) {
+										if (failure) throw failure;
+										break;
+									}
+									retries++;
+									await wait(retryDelay(attempt, chunkRetry));
+								}
+								const moveStatus = response?.statusCode ?? response?.status;
+								if (!assemblyVerified && (moveStatus < 200 || moveStatus >= 300)) {
+									throw new NodeOperationError(
+										this.getNode(),
+										toFriendlyError({ statusCode: moveStatus }, `${uploadUrl}/.file`, 'file'),
+										{ itemIndex },
+									);
+								}
+							} else {
+								// Generic fallback: partial PUTs with Content-Range. Resuming continues after the
+								// last complete chunk the server already stores, once that prefix is confirmed to
+								// match the local content; otherwise, e.g. for an older version of the file, the
+								// upload starts over.
+								let resumeFrom = 0;
+								if (resume) {
+									const probe = await doRequest({
+										method: 'PROPFIND' as any,
+										url: normalizePath(path),
+										body: `<?xml version="1.0" encoding="utf-8"?>
+<D:propfind xmlns:D="DAV:"><D:prop><D:getcontentlength/></D:prop></D:propfind>`,
+										headers: { Depth: '0', 'Content-Type': 'application/xml' },
+										ignoreHttpStatusErrors: true,
+										returnFullResponse: true,
+									});
+									if ((probe.statusCode ?? probe.status) === 207) {
+										const existingLength = Number(parsePropfindResponse(probe.data ?? probe.body)[0]?.contentLength ?? 0);
+										if (existingLength < totalSize) resumeFrom = existingLength - (existingLength % chunkSize);
+									}
+								}
+								if (resumeFrom > 0) {
+									const remote = await doRequest({
+										method: 'GET',
+										url: normalizePath(path),
+										headers: { Range: `bytes=0-${resumeFrom - 1}` },
+										encoding: 'stream',
+										ignoreHttpStatusErrors: true,
+										returnFullResponse: true,
+									} as Parameters<typeof this.helpers.httpRequest>[0]);
+									const remoteHash = createHash('sha256');
+									let remoteLength = 0;
+									const remoteBody = remote.body ?? remote.data;
+									if ((remote.statusCode ?? remote.status) === 206) {
+										for await (const chunk of readChunks(remoteBody, chunkSize)) {
+											remoteHash.update(chunk);
+											remoteLength += chunk.length;
+										}
+									} else {
+										remoteBody?.destroy?.();
+									}
+									const localHash = createHash('sha256');
+									let localLength = 0;
+									for await (const chunk of readChunks(await openSource(), chunkSize)) {
+										if (localLength >= resumeFrom) break;
+										localHash.update(chunk);
+										localLength += chunk.length;
+									}
+									if (remoteLength !== resumeFrom || remoteHash.digest('hex') !== localHash.digest('hex')) resumeFrom = 0;
+								}
+
+								let offset = 0;
+								for await (const chunk of readChunks(await openSource(), chunkSize)) {
+									chunkIndex++;
+									hash.update(chunk);
+									const start = offset;
+									offset += chunk.length;
+									if (start < resumeFrom) {
+										chunksSkipped++;
+										continue;
+									}
+									response = await putChunk({
+										method: 'PUT',
+										url: normalizePath(path),
+										body: chunk,
+										headers: {
+											'Content-Type': contentType,
+											...(chunk.length
+												? { 'Content-Range': `bytes ${start}-${start + chunk.length - 1}/${totalSize}` }
+												: {}),
+											...lockIfHeader(options.lockId),
+										},
+										returnFullResponse: true,
+									});
+									chunksUploaded++;
+								}
+								checksum = hash.digest('hex');
+							}
+
+							const statusCode = response?.statusCode ?? response?.status ?? null;
+							returnItems.push({
+								json: {
+									success: assemblyVerified || (statusCode >= 200 && statusCode < 300),
+									statusCode,
+									path,
+									contentType,
+									checksum,
+									checksumAlgorithm,
+									uploadMode,
+									uploadId: uploadMode === 'nextcloud' ? uploadId : null,
+									size: totalSize,
+									chunks: chunkIndex,
+									chunksUploaded,
+									chunksSkipped,
+									retries,
+									// Set when the response of the assembling MOVE was lost but the target has the uploaded file
+									...(assemblyVerified ? { assemblyVerified } : {}),
+									...(createdFolders ? { createdFolders } : {}),
+								},
+							});
+							break;
+						}
+						const binData = payload?.data ?? (await this.helpers.getBinaryDataBuffer(itemIndex, binaryPropertyName));
+						const contentType = payload?.contentType ?? (inputItem.binary![binaryPropertyName].mimeType || 'application/octet-stream');
+						const checksumAlgorithm = (options.checksumAlgorithm as string) || 'sha256';
+						const checksum = (await computeDigests(binData, [checksumAlgorithm]))[checksumAlgorithm];
+
+						const { response, flags } = await conditionalRequest(
+							{
+								method: 'PUT',
+								url: normalizePath(path),
+								body: binData as unknown as Buffer,
+								headers: {
+									'Content-Type': contentType,
+									...lockIfHeader(options.lockId),
+									...(options.sendChecksum === false ? {} : checksumHeaders(checksumAlgorithm, checksum)),
+								},
+								returnFullResponse: true,
 							},
-							returnFullResponse: true,
-						});
+							conditions,
+						);
 
                                                 const statusCode = response.statusCode ?? response.status;
                                                 returnItems.push({
@@ -373,6 +1084,10 @@ export class WebDav implements INodeType {
                                                                 statusCode,
                                                                 path,
                                                                 contentType,
+                                                                checksum,
+                                                                checksumAlgorithm,
+                                                                ...flags,
+                                                                ...(createdFolders ? { createdFolders } : {}),
                                                         },
                                                 });
                                                 break;
@@ -380,15 +1095,60 @@ export class WebDav implements INodeType {
                                         case 'propfind': {
 						const path = this.getNodeParameter('path', itemIndex, '/') as string;
 						const depth = this.getNodeParameter('depth', itemIndex, '1') as string;
+						const propertyMode = this.getNodeParameter('propertyMode', itemIndex, 'standard') as string;
 
-						const xmlBody = `<?xml version="1.0" encoding="utf-8"?>
-<D:propfind xmlns:D="DAV:">
+						let propXml: string;
+						const registry = createNamespaceRegistry();
+						if (propertyMode === 'allprop' || propertyMode === 'custom') {
+							const selected = propertyMode === 'custom'
+								? (this.getNodeParameter('properties', itemIndex, []) as string[]).map(parsePropertyKey)
+								: [];
+							const additional = this.getNodeParameter('customProperties', itemIndex, {}) as IDataObject;
+							const requested = [
+								...selected,
+								...((additional.property ?? []) as Array<{ namespace: string; name: string }>),
+							];
+							for (const p of requested) {
+								if (!isValidXmlName(p.name)) {
+									throw new NodeOperationError(this.getNode(), `Invalid property name "${p.name}". Use a plain XML element name without prefix.`, { itemIndex });
+								}
+							}
+							const elements = requested
+								.map((p) => {
+									const { tag, decl } = registry.qualify(p.namespace ?? '', p.name);
+									return `\n\t\t<${tag}${decl}/>`;
+								})
+								.join('');
+							if (propertyMode === 'custom') {
+								if (!requested.length) {
+									throw new NodeOperationError(this.getNode(), 'Select at least one property to retrieve', { itemIndex });
+								}
+								// Resource type is always needed to tell files and directories apart
+								propXml = `
+	<D:prop>
+		<D:resourcetype/>${elements}
+	</D:prop>`;
+							} else {
+								propXml = `
+	<D:allprop/>${elements ? `
+	<D:include>${elements}
+	</D:include>` : ''}`;
+							}
+						} else if (propertyMode === 'propname') {
+							propXml = `
+	<D:propname/>`;
+						} else {
+							propXml = `
 	<D:prop>
 		<D:getcontenttype/>
 		<D:getlastmodified/>
 		<D:getcontentlength/>
 		<D:resourcetype/>
-	</D:prop>
+	</D:prop>`;
+						}
+
+						const xmlBody = `<?xml version="1.0" encoding="utf-8"?>
+<D:propfind xmlns:D="DAV:"${registry.declarations()}>${propXml}
 </D:propfind>`;
 
 						const response = await doRequest({
@@ -402,33 +1162,6 @@ export class WebDav implements INodeType {
 							returnFullResponse: true,
 						});
 
-						// Parse PROPFIND response
-						const parsePropfindResponse = (xmlData: string): any[] => {
-							const resources: any[] = [];
-							const responseRegex = /<D:response[^>]*>(.*?)<\/D:response>/gs;
-							let match;
-
-							while ((match = responseRegex.exec(xmlData)) !== null) {
-								const responseXml = match[1];
-								const hrefMatch = responseXml.match(/<D:href[^>]*>(.*?)<\/D:href>/);
-								const contentTypeMatch = responseXml.match(/<D:getcontenttype[^>]*>(.*?)<\/D:getcontenttype>/);
-								const lastModifiedMatch = responseXml.match(/<D:getlastmodified[^>]*>(.*?)<\/D:getlastmodified>/);
-								const contentLengthMatch = responseXml.match(/<D:getcontentlength[^>]*>(.*?)<\/D:getcontentlength>/);
-								const resourceTypeMatch = responseXml.match(/<D:resourcetype[^>]*>(.*?)<\/D:resourcetype>/);
-
-								if (hrefMatch) {
-									resources.push({
-										href: decodeURIComponent(hrefMatch[1]),
-										contentType: contentTypeMatch ? contentTypeMatch[1] : null,
-										lastModified: lastModifiedMatch ? lastModifiedMatch[1] : null,
-										contentLength: contentLengthMatch ? parseInt(contentLengthMatch[1]) : null,
-										isCollection: resourceTypeMatch ? resourceTypeMatch[1].includes('collection') : false,
-									});
-								}
-							}
-
-							return resources;
-						};
                                                 const bodyData = (response.data ?? response.body) as string;
                                                 const statusCode = response.statusCode ?? response.status;
                                                 returnItems.push({
@@ -439,8 +1172,223 @@ export class WebDav implements INodeType {
                                                 });
                                                 break;
                                         }
+                                        case 'changes': {
+						const path = this.getNodeParameter('path', itemIndex, '/') as string;
+						const syncToken = (this.getNodeParameter('syncCursor', itemIndex, '') as string).trim();
+						const changesOptions = this.getNodeParameter('changesOptions', itemIndex, {}) as IDataObject;
+						const recursive = changesOptions.recursive !== false;
+						const limit = changesOptions.limit ? Number(changesOptions.limit) : 0;
+						const useSavedState = changesOptions.useSavedState !== false;
+
+						// The saved state keeps the last token and the ETag of every known href, so added and
+						// modified resources can be told apart and a full listing only reports real changes
+						const staticData = this.getWorkflowStaticData('node');
+						const stateKey = `${recursive ? 'infinite' : '1'}:${normalizePath(path)}`;
+						const savedStates = (staticData.changesState ?? {}) as Record<string, { token: string; known: Record<string, string> }>;
+						const saved = useSavedState ? savedStates[stateKey] : undefined;
+						const previousToken = syncToken || saved?.token || '';
+						const known: Record<string, string> = { ...(saved?.known ?? {}) };
+
+						const syncReport = async (token: string) =>
+							await doRequest({
+								method: 'REPORT' as any,
+								url: path === '/' ? '/' : normalizePath(path),
+								body: `<?xml version="1.0" encoding="utf-8"?>
+<D:sync-collection xmlns:D="DAV:">
+	<D:sync-token>${escapeXml(token)}</D:sync-token>
+	<D:sync-level>${recursive ? 'infinite' : '1'}</D:sync-level>${limit ? `
+	<D:limit><D:nresults>${limit}</D:nresults></D:limit>` : ''}
+	<D:prop>
+		<D:resourcetype/>
+		<D:getcontenttype/>
+		<D:getcontentlength/>
+		<D:getlastmodified/>
+		<D:getetag/>
+	</D:prop>
+</D:sync-collection>`,
+								headers: { Depth: '0', 'Content-Type': 'application/xml' },
+								ignoreHttpStatusErrors: true,
+								returnFullResponse: true,
+							});
+
+						let response = await syncReport(previousToken);
+						let statusCode = response.statusCode ?? response.status;
+						let bodyData = String(response.data ?? response.body ?? '');
+						// An expired or unknown token fails the DAV:valid-sync-token precondition (403, some servers
+						// answer 409); start over with an initial sync, which lists every member again
+						let tokenRejected = false;
+						if (
+							previousToken &&
+							(statusCode === 409 || (statusCode === 403 && /valid-sync-token/.test(bodyData)))
+						) {
+							tokenRejected = true;
+							response = await syncReport('');
+							statusCode = response.statusCode ?? response.status;
+							bodyData = String(response.data ?? response.body ?? '');
+						}
+						if (statusCode < 200 || statusCode >= 300) {
+							throw new NodeOperationError(this.getNode(), toFriendlyError({ statusCode }, path, 'file'), { itemIndex });
+						}
+						const fullListing = !previousToken || tokenRejected;
+
+						const outerXml = bodyData.replace(/<(?:[\w-]+:)?response(?:\s[^>]*)?>.*?<\/(?:[\w-]+:)?response>/gs, '');
+						const newToken = decodeXmlEntities(xmlInner(outerXml, 'sync-token') ?? '');
+						const statuses = parseMultiStatus(bodyData);
+						const resources = parsePropfindResponse(bodyData);
+
+						const added: string[] = [];
+						const modified: string[] = [];
+						const removed: string[] = [];
+						const changes: IDataObject[] = [];
+						const listed = new Set<string>();
+						let truncated = false;
+						statuses.forEach((res, i) => {
+							// 507 on the request URI means the server stopped early; the new token continues from there
+							if (res.status === 507) {
+								truncated = true;
+								return;
+							}
+							const entry: IDataObject = { href: res.href, path: hrefToPath(res.href) };
+							if (res.status === 404) {
+								removed.push(res.href);
+								delete known[res.href];
+								changes.push({ change: 'removed', ...entry });
+								return;
+							}
+							const { href, props, failedProperties, ...details } = resources[i];
+							const etag = (details.etag as string | null) ?? '';
+							listed.add(res.href);
+							let change: string;
+							if (!(res.href in known)) {
+								// Without a saved state, resources reported after a token cannot be classified further
+								change = !fullListing && !saved ? 'modified' : 'added';
+							} else if (!etag || known[res.href] !== etag) {
+								change = 'modified';
+							} else {
+								change = '';
+							}
+							known[res.href] = etag;
+							if (!change) return;
+							(change === 'added' ? added : modified).push(res.href);
+							changes.push({ change, ...entry, ...details });
+						});
+						// A complete full listing reveals which known resources are gone
+						if (fullListing && !truncated) {
+							for (const href of Object.keys(known)) {
+								if (listed.has(href)) continue;
+								removed.push(href);
+								delete known[href];
+								changes.push({ change: 'removed', href, path: hrefToPath(href) });
+							}
+						}
+
+						if (useSavedState && newToken) {
+							staticData.changesState = { ...savedStates, [stateKey]: { token: newToken, known } };
+						}
+
+						returnItems.push({
+							json: {
+								path,
+								syncToken: newToken || null,
+								previousToken: previousToken || null,
+								fullListing,
+								tokenRejected,
+								truncated,
+								added,
+								modified,
+								removed,
+								changes,
+								statusCode,
+							},
+							pairedItem: itemIndex,
+						});
+						break;
+					}
+                                        case 'quota': {
+						const path = this.getNodeParameter('path', itemIndex, '/') as string;
+
+						const response = await doRequest({
+							method: 'PROPFIND' as any,
+							url: path === '/' ? '/' : normalizePath(path),
+							body: `<?xml version="1.0" encoding="utf-8"?>
+<D:propfind xmlns:D="DAV:">
+	<D:prop>
+		<D:quota-available-bytes/>
+		<D:quota-used-bytes/>
+	</D:prop>
+</D:propfind>`,
+							headers: { Depth: '0', 'Content-Type': 'application/xml' },
+							returnFullResponse: true,
+						});
+						const statusCode = response.statusCode ?? response.status;
+						const props = (parsePropfindResponse(response.data ?? response.body)[0]?.props ?? {}) as IDataObject;
+						const toNumber = (value: unknown): number | null => {
+							const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+							return isNaN(n) ? null : n;
+						};
+						const rawUsed = toNumber(props['quota-used-bytes']);
+						const rawAvailable = toNumber(props['quota-available-bytes']);
+
+						// Negative values are not real byte counts: Nextcloud and ownCloud report -3 for unlimited,
+						// -2 for unknown and -1 for "not computed yet". A missing property means no quota information.
+						const used = rawUsed !== null && rawUsed >= 0 ? rawUsed : null;
+						const available = rawAvailable !== null && rawAvailable >= 0 ? rawAvailable : null;
+						let quota = 'unknown';
+						if (available !== null) quota = 'limited';
+						else if (rawAvailable === -3) quota = 'unlimited';
+						const total = used !== null && available !== null ? used + available : null;
+						const percentUsed = total ? Math.round((used! / total) * 10000) / 100 : null;
+
+						returnItems.push({
+							json: {
+								path,
+								quota,
+								used,
+								available,
+								total,
+								percentUsed,
+								rawUsed,
+								rawAvailable,
+								statusCode,
+							},
+							pairedItem: itemIndex,
+						});
+						break;
+					}
+					case 'capabilities': {
+						const path = this.getNodeParameter('path', itemIndex, '/') as string;
+						const response = await doRequest({
+							method: 'OPTIONS' as any,
+							url: normalizePath(path),
+							returnFullResponse: true,
+						});
+						returnItems.push({
+							json: {
+								path,
+								statusCode: response.statusCode ?? response.status,
+								...parseDavCapabilities(response.headers ?? {}),
+							},
+						});
+						break;
+					}
                                         case 'mkcol': {
 						const path = this.getNodeParameter('path', itemIndex, '') as string;
+						const createParents = this.getNodeParameter('createParents', itemIndex, false) as boolean;
+
+						if (createParents) {
+							const { created, statusCode } = await ensureCollection(path);
+							const alreadyExisted = statusCode === 405;
+							returnItems.push({
+								json: {
+									success: true,
+									statusCode,
+									path,
+									created,
+									alreadyExisted,
+								},
+							});
+							break;
+						}
 
 						const response = await doRequest({
 							method: 'MKCOL' as any,
@@ -460,19 +1408,29 @@ export class WebDav implements INodeType {
                                         }
                                         case 'delete': {
 						const path = this.getNodeParameter('path', itemIndex, '') as string;
+						const options = this.getNodeParameter('options', itemIndex, {}) as IDataObject;
 
-						const response = await doRequest({
-							method: 'DELETE',
-							url: normalizePath(path),
-							returnFullResponse: true,
-						});
+						const { response, flags } = await conditionalRequest(
+							{
+								method: 'DELETE',
+								url: normalizePath(path),
+								headers: {
+									...lockIfHeader(options.lockId),
+								},
+								returnFullResponse: true,
+							},
+							conditionalHeaders(options, itemIndex),
+						);
 
                                                 const statusCode = response.statusCode ?? response.status;
+                                                const { success, details } = multiStatusOutcome(response);
                                                 returnItems.push({
                                                         json: {
-                                                                success: statusCode >= 200 && statusCode < 300,
+                                                                success,
                                                                 statusCode,
                                                                 path,
+                                                                ...flags,
+                                                                ...details,
                                                         },
                                                 });
                                                 break;
@@ -481,6 +1439,7 @@ export class WebDav implements INodeType {
 						const path = this.getNodeParameter('path', itemIndex, '') as string;
 						const destination = this.getNodeParameter('destination', itemIndex, '') as string;
 						const overwrite = this.getNodeParameter('overwrite', itemIndex, false) as boolean;
+						const options = this.getNodeParameter('options', itemIndex, {}) as IDataObject;
 
 						// Allow absolute destination only if same-origin as base URL
 						let destinationHeader: string;
@@ -495,23 +1454,30 @@ export class WebDav implements INodeType {
 							destinationHeader = `${baseRoot}${normalizePath(destination)}`;
 						}
 
-						const response = await doRequest({
-							method: 'MOVE' as any,
-							url: normalizePath(path),
-							headers: {
-								Destination: destinationHeader,
-								Overwrite: overwrite ? 'T' : 'F',
+						const { response, flags } = await conditionalRequest(
+							{
+								method: 'MOVE' as any,
+								url: normalizePath(path),
+								headers: {
+									Destination: destinationHeader,
+									Overwrite: overwrite ? 'T' : 'F',
+									...lockIfHeader(options.lockId),
+								},
+								returnFullResponse: true,
 							},
-							returnFullResponse: true,
-						});
+							conditionalHeaders(options, itemIndex),
+						);
 
                                                 const statusCode = response.statusCode ?? response.status;
+                                                const { success, details } = multiStatusOutcome(response);
                                                 returnItems.push({
                                                         json: {
-                                                                success: statusCode >= 200 && statusCode < 300,
+                                                                success,
                                                                 statusCode,
                                                                 sourcePath: path,
                                                                 destinationPath: destination,
+                                                                ...flags,
+                                                                ...details,
                                                         },
                                                 });
                                                 break;
@@ -520,6 +1486,7 @@ export class WebDav implements INodeType {
 						const path = this.getNodeParameter('path', itemIndex, '') as string;
 						const destination = this.getNodeParameter('destination', itemIndex, '') as string;
 						const overwrite = this.getNodeParameter('overwrite', itemIndex, false) as boolean;
+						const options = this.getNodeParameter('options', itemIndex, {}) as IDataObject;
 
 						let destinationHeader: string;
 						if (/^https?:\/\//i.test(destination)) {
@@ -533,27 +1500,1460 @@ export class WebDav implements INodeType {
 							destinationHeader = `${baseRoot}${normalizePath(destination)}`;
 						}
 
-						const response = await doRequest({
-							method: 'COPY' as any,
-							url: normalizePath(path),
-							headers: {
-								Destination: destinationHeader,
-								Overwrite: overwrite ? 'T' : 'F',
+						const { response, flags } = await conditionalRequest(
+							{
+								method: 'COPY' as any,
+								url: normalizePath(path),
+								headers: {
+									Destination: destinationHeader,
+									Overwrite: overwrite ? 'T' : 'F',
+									// The copy source is only read, so the token guards the (locked) destination
+									...lockIfHeader(options.lockId, destinationHeader),
+								},
+								returnFullResponse: true,
 							},
-							returnFullResponse: true,
-						});
+							conditionalHeaders(options, itemIndex),
+						);
 
                                                 const statusCode = response.statusCode ?? response.status;
+                                                const { success, details } = multiStatusOutcome(response);
                                                 returnItems.push({
                                                         json: {
-                                                                success: statusCode >= 200 && statusCode < 300,
+                                                                success,
                                                                 statusCode,
                                                                 sourcePath: path,
                                                                 destinationPath: destination,
+                                                                ...flags,
+                                                                ...details,
                                                         },
                                                 });
                                                 break;
                                         }
+					case 'lock': {
+						const path = this.getNodeParameter('path', itemIndex, '') as string;
+						const lockScope = this.getNodeParameter('lockScope', itemIndex, 'exclusive') as string;
+						const lockTimeout = this.getNodeParameter('lockTimeout', itemIndex, 3600) as number;
+						const lockOwner = this.getNodeParameter('lockOwner', itemIndex, '') as string;
+						const lockDepth = this.getNodeParameter('lockDepth', itemIndex, 'infinity') as string;
+
+						const ownerXml = lockOwner
+							? `
+	<D:owner>${/^https?:\/\//i.test(lockOwner) ? `<D:href>${escapeXml(lockOwner)}</D:href>` : escapeXml(lockOwner)}</D:owner>`
+							: '';
+						const xmlBody = `<?xml version="1.0" encoding="utf-8"?>
+<D:lockinfo xmlns:D="DAV:">
+	<D:lockscope><D:${lockScope === 'shared' ? 'shared' : 'exclusive'}/></D:lockscope>
+	<D:locktype><D:write/></D:locktype>${ownerXml}
+</D:lockinfo>`;
+
+						const response = await doRequest({
+							method: 'LOCK' as any,
+							url: normalizePath(path),
+							body: xmlBody,
+							headers: {
+								Depth: lockDepth,
+								Timeout: lockTimeout > 0 ? `Second-${Math.floor(lockTimeout)}` : 'Infinite',
+								'Content-Type': 'application/xml',
+							},
+							returnFullResponse: true,
+						});
+
+						// Parse the granted lock from the lockdiscovery body; the header is authoritative for the token
+						const bodyData = String(response.data ?? response.body ?? '');
+						const pick = (tag: string, xml: string = bodyData) => xmlInner(xml, tag);
+						const headers = (response.headers ?? {}) as IDataObject;
+						const headerToken = headers['lock-token'] as string | undefined;
+						const bodyTokenHref = pick('locktoken');
+						const lockToken = cleanLockToken(
+							headerToken || (bodyTokenHref ? pick('href', bodyTokenHref) : ''),
+						);
+						const scopeXml = pick('lockscope') ?? '';
+						const ownerValue = pick('owner');
+						const rootHref = pick('lockroot');
+
+						const statusCode = response.statusCode ?? response.status;
+						returnItems.push({
+							json: {
+								success: statusCode >= 200 && statusCode < 300,
+								statusCode,
+								path,
+								lockToken: lockToken || null,
+								scope: /shared/i.test(scopeXml) ? 'shared' : /exclusive/i.test(scopeXml) ? 'exclusive' : lockScope,
+								depth: pick('depth') ?? lockDepth,
+								timeout: pick('timeout'),
+								owner: ownerValue ? ownerValue.replace(/<[^>]+>/g, '').trim() : lockOwner || null,
+								lockRoot: rootHref ? decodeURIComponent(rootHref.replace(/<[^>]+>/g, '').trim()) : null,
+							},
+						});
+						break;
+					}
+					case 'unlock': {
+						const path = this.getNodeParameter('path', itemIndex, '') as string;
+						const lockToken = cleanLockToken(this.getNodeParameter('lockId', itemIndex, ''));
+						if (!lockToken) {
+							throw new NodeOperationError(this.getNode(), 'A lock token is required to unlock a resource', { itemIndex });
+						}
+
+						const response = await doRequest({
+							method: 'UNLOCK' as any,
+							url: normalizePath(path),
+							headers: {
+								'Lock-Token': `<${lockToken}>`,
+							},
+							returnFullResponse: true,
+						});
+
+						const statusCode = response.statusCode ?? response.status;
+						returnItems.push({
+							json: {
+								success: statusCode >= 200 && statusCode < 300,
+								statusCode,
+								path,
+								lockToken,
+							},
+						});
+						break;
+					}
+					case 'proppatch': {
+						const path = this.getNodeParameter('path', itemIndex, '') as string;
+						const setProperties = this.getNodeParameter('setProperties', itemIndex, {}) as IDataObject;
+						const removeProperties = this.getNodeParameter('removeProperties', itemIndex, {}) as IDataObject;
+						const toSet = (setProperties.property ?? []) as Array<{ namespace: string; name: string; value: string }>;
+						const toRemove = (removeProperties.property ?? []) as Array<{ namespace: string; name: string }>;
+						if (toSet.length === 0 && toRemove.length === 0) {
+							throw new NodeOperationError(this.getNode(), 'Add at least one property to set or remove', { itemIndex });
+						}
+
+						const registry = createNamespaceRegistry();
+						const qualify = (namespace: string, name: string) => {
+							if (!isValidXmlName(name)) {
+								throw new NodeOperationError(this.getNode(), `Invalid property name "${name}". Use a plain XML element name without prefix.`, { itemIndex });
+							}
+							return registry.qualify(namespace, name);
+						};
+						const setXml = toSet
+							.map((p) => {
+								const { tag, decl } = qualify(p.namespace, p.name);
+								return `\n\t\t\t<${tag}${decl}>${escapeXml(String(p.value ?? ''))}</${tag}>`;
+							})
+							.join('');
+						const removeXml = toRemove
+							.map((p) => {
+								const { tag, decl } = qualify(p.namespace, p.name);
+								return `\n\t\t\t<${tag}${decl}/>`;
+							})
+							.join('');
+						const xmlBody = `<?xml version="1.0" encoding="utf-8"?>
+<D:propertyupdate xmlns:D="DAV:"${registry.declarations()}>${setXml ? `
+	<D:set>
+		<D:prop>${setXml}
+		</D:prop>
+	</D:set>` : ''}${removeXml ? `
+	<D:remove>
+		<D:prop>${removeXml}
+		</D:prop>
+	</D:remove>` : ''}
+</D:propertyupdate>`;
+
+						const response = await doRequest({
+							method: 'PROPPATCH' as any,
+							url: normalizePath(path),
+							body: xmlBody,
+							headers: {
+								'Content-Type': 'application/xml',
+							},
+							returnFullResponse: true,
+						});
+
+						const statusCode = response.statusCode ?? response.status;
+						const requested = [
+							...toSet.map((p) => ({ action: 'set', namespace: p.namespace ?? '', name: p.name })),
+							...toRemove.map((p) => ({ action: 'remove', namespace: p.namespace ?? '', name: p.name })),
+						];
+
+						// A 207 carries one propstat per outcome; PROPPATCH is atomic, so one failure fails all (424)
+						const results = requested.map((r) => ({
+							...r,
+							status: statusCode as number | null,
+							success: statusCode >= 200 && statusCode < 300,
+							error: [] as string[],
+							description: null as string | null,
+						}));
+						if (statusCode === 207) {
+							const bodyData = String(response.data ?? response.body ?? '');
+							for (const res of parseMultiStatus(bodyData)) {
+								for (const propstat of res.propstats) {
+									for (const prop of propstat.props) {
+										const target = results.find(
+											(r) => r.name === prop.name && r.namespace === prop.namespace,
+										);
+										if (!target) continue;
+										target.status = propstat.status;
+										target.success = propstat.status !== null && propstat.status >= 200 && propstat.status < 300;
+										target.error = propstat.error;
+										target.description = propstat.description;
+									}
+								}
+							}
+						}
+
+						const failed = results.filter((r) => !r.success);
+						returnItems.push({
+							json: {
+								success: statusCode >= 200 && statusCode < 300 && failed.length === 0,
+								statusCode,
+								path,
+								properties: results,
+								failed,
+							},
+						});
+						break;
+					}
+					case 'list': {
+						const path = this.getNodeParameter('path', itemIndex, '/') as string;
+						const recursive = this.getNodeParameter('recursive', itemIndex, false) as boolean;
+						const maxDepth = recursive ? (this.getNodeParameter('maxDepth', itemIndex, 0) as number) : 1;
+						const returnAll = this.getNodeParameter('returnAll', itemIndex, false) as boolean;
+						const limit = returnAll ? Infinity : (this.getNodeParameter('limit', itemIndex, 50) as number);
+						const filters = this.getNodeParameter('filters', itemIndex, {}) as IDataObject;
+
+						const pattern = (filters.namePattern as string) || '';
+						let matcher: RegExp | undefined;
+						try {
+							if (pattern) matcher = filters.patternType === 'regex' ? new RegExp(pattern) : globToRegExp(pattern);
+						} catch (e) {
+							throw new NodeOperationError(this.getNode(), `Invalid name pattern "${pattern}": ${(e as Error).message}`, { itemIndex });
+						}
+						const modifiedSince = filters.modifiedSince ? Date.parse(filters.modifiedSince as string) : undefined;
+						const include = (entry: IDataObject): boolean => {
+							if (filters.type === 'files' && entry.isCollection) return false;
+							if (filters.type === 'folders' && !entry.isCollection) return false;
+							// Patterns containing "/" match the path below the listed folder, others the name
+							if (matcher && !matcher.test((pattern.includes('/') ? entry.relativePath : entry.name) as string)) {
+								return false;
+							}
+							if (modifiedSince !== undefined && !isNaN(modifiedSince)) {
+								const modified = Date.parse(String(entry.lastModified ?? ''));
+								if (isNaN(modified) || modified < modifiedSince) return false;
+							}
+							if (!entry.isCollection) {
+								const size = (entry.contentLength as number | null) ?? 0;
+								if (filters.minSize !== undefined && size < Number(filters.minSize)) return false;
+								if (filters.maxSize !== undefined && size > Number(filters.maxSize)) return false;
+							}
+							return true;
+						};
+
+						const entries = await walkCollection(path, { maxDepth, limit, include });
+						for (const entry of entries) {
+							returnItems.push({ json: entry, pairedItem: itemIndex });
+						}
+						break;
+					}
+					case 'search': {
+						const path = this.getNodeParameter('path', itemIndex, '/') as string;
+						const queryMode = this.getNodeParameter('queryMode', itemIndex, 'builder') as string;
+						const searchOptions = this.getNodeParameter('searchOptions', itemIndex, {}) as IDataObject;
+
+						// The scope href is sent relative to the search endpoint when it lies below it (Nextcloud expects
+						// /files/<user>/... against /remote.php/dav), otherwise as absolute server path. Nextcloud rejects
+						// SEARCH below its DAV root, so that root is the default for a /remote.php/dav/files/ Base URL.
+						const origin = (baseRoot.match(/^https?:\/\/[^/]+/i) ?? [''])[0];
+						const endpoint =
+							String(searchOptions.searchEndpoint ?? '').trim() ||
+							(/\/remote\.php\/dav\/files\//i.test(basePath) ? davRootUrl.slice(origin.length) : '');
+						const endpointPath = endpoint ? normalizePath(endpoint).replace(/\/$/, '') : baseRoot.slice(origin.length);
+						const scopePath = `${baseRoot.slice(origin.length)}${normalizePath(path)}`.replace(/(.)\/$/, '$1');
+						const scopeHref = scopePath === endpointPath
+							? '/'
+							: scopePath.startsWith(`${endpointPath}/`) ? scopePath.slice(endpointPath.length) : scopePath;
+
+						let limit = Infinity;
+						let body: string;
+						if (queryMode === 'raw') {
+							body = (this.getNodeParameter('rawQuery', itemIndex, '') as string).trim();
+							if (!body) {
+								throw new NodeOperationError(this.getNode(), 'Search Request XML must not be empty', { itemIndex });
+							}
+						} else {
+							const depth = this.getNodeParameter('depth', itemIndex, 'infinity') as string;
+							const conditions = this.getNodeParameter('conditions', itemIndex, {}) as IDataObject;
+							const orderBy = this.getNodeParameter('orderBy', itemIndex, {}) as IDataObject;
+							const returnAll = this.getNodeParameter('returnAll', itemIndex, false) as boolean;
+							if (!returnAll) limit = this.getNodeParameter('limit', itemIndex, 50) as number;
+
+							const compare = (operator: string, prop: string, value: string) =>
+								`<D:${operator}><D:prop><D:${prop}/></D:prop><D:literal>${escapeXml(value)}</D:literal></D:${operator}>`;
+							// "%" and "_" are wildcards of DAV:like, so literal text is escaped with a backslash
+							const likeLiteral = (value: string) => value.replace(/[\\%_]/g, '\\$&');
+							// Dates are sent as ISO 8601 literals, which Nextcloud and SharePoint both accept
+							const dateLiteral = (value: unknown, name: string) => {
+								const time = Date.parse(String(value));
+								if (isNaN(time)) {
+									throw new NodeOperationError(this.getNode(), `Invalid date "${value}" for ${name}`, { itemIndex });
+								}
+								return new Date(time).toISOString().replace(/\.\d{3}Z$/, '+00:00');
+							};
+							const where: string[] = [];
+							if (conditions.nameContains) where.push(compare('like', 'displayname', `%${likeLiteral(String(conditions.nameContains))}%`));
+							if (conditions.nameLike) where.push(compare('like', 'displayname', conditions.nameLike as string));
+							if (conditions.contentType) {
+								const contentType = conditions.contentType as string;
+								where.push(compare(contentType.includes('%') ? 'like' : 'eq', 'getcontenttype', contentType));
+							}
+							if (conditions.minSize !== undefined) where.push(compare('gte', 'getcontentlength', String(conditions.minSize)));
+							if (conditions.maxSize !== undefined) where.push(compare('lte', 'getcontentlength', String(conditions.maxSize)));
+							if (conditions.modifiedAfter) {
+								where.push(compare('gt', 'getlastmodified', dateLiteral(conditions.modifiedAfter, 'Modified After')));
+							}
+							if (conditions.modifiedBefore) {
+								where.push(compare('lt', 'getlastmodified', dateLiteral(conditions.modifiedBefore, 'Modified Before')));
+							}
+							if (conditions.type === 'files') where.push('<D:not><D:is-collection/></D:not>');
+							if (conditions.type === 'folders') where.push('<D:is-collection/>');
+
+							const whereXml = where.length > 1 ? `<D:and>${where.join('')}</D:and>` : where.join('');
+							const orderXml = ((orderBy.rule ?? []) as Array<{ property: string; direction: string }>)
+								.map((rule) => `<D:order><D:prop><D:${rule.property}/></D:prop><D:${rule.direction === 'ascending' ? 'ascending' : 'descending'}/></D:order>`)
+								.join('');
+							body = `<?xml version="1.0" encoding="utf-8"?>
+<D:searchrequest xmlns:D="DAV:">
+	<D:basicsearch>
+		<D:select>
+			<D:prop>
+				<D:resourcetype/>
+				<D:getcontenttype/>
+				<D:getcontentlength/>
+				<D:getlastmodified/>
+				<D:getetag/>
+				<D:displayname/>
+			</D:prop>
+		</D:select>
+		<D:from>
+			<D:scope>
+				<D:href>${escapeXml(scopeHref)}</D:href>
+				<D:depth>${depth}</D:depth>
+			</D:scope>
+		</D:from>${whereXml ? `
+		<D:where>${whereXml}</D:where>` : ''}${orderXml ? `
+		<D:orderby>${orderXml}</D:orderby>` : ''}${limit !== Infinity ? `
+		<D:limit><D:nresults>${limit}</D:nresults></D:limit>` : ''}
+	</D:basicsearch>
+</D:searchrequest>`;
+						}
+
+						const response = await doRequest({
+							method: 'SEARCH' as any,
+							url: endpoint ? `${origin}${endpointPath || '/'}` : '/',
+							body,
+							headers: { 'Content-Type': 'application/xml' },
+							returnFullResponse: true,
+						});
+						// Servers may ignore DAV:limit, so the limit is enforced here as well
+						for (const resource of parsePropfindResponse(response.data ?? response.body).slice(0, limit)) {
+							returnItems.push({ json: resource, pairedItem: itemIndex });
+						}
+						break;
+					}
+					case 'sync': {
+						const syncSource = this.getNodeParameter('syncSource', itemIndex, 'binary') as string;
+						// Binary items form one set of files, so all input items are synced together with the first one
+						if (syncSource === 'binary' && itemIndex > 0) break;
+						const path = this.getNodeParameter('path', itemIndex, '/') as string;
+						const sourcePath = syncSource === 'remote' ? (this.getNodeParameter('sourcePath', itemIndex, '') as string) : '';
+						const syncMode = this.getNodeParameter('syncMode', itemIndex, 'mirror') as string;
+						const dryRun = this.getNodeParameter('dryRun', itemIndex, false) as boolean;
+						const syncOptions = this.getNodeParameter('syncOptions', itemIndex, {}) as IDataObject;
+						const binaryPropertyName = (syncOptions.binaryPropertyName as string) || 'data';
+						const useSavedState = syncOptions.useSavedState !== false;
+
+						type SyncFile = {
+							signature: string;
+							size: number | null;
+							modified: number | null;
+							itemIndex?: number;
+							contentType?: string;
+							// Content digests by algorithm (binary items, or oc:checksums of remote files)
+							hashes: Record<string, string>;
+							etag?: string;
+						};
+						const joinPath = (root: string, rel: string) => `${root.replace(/\/$/, '')}/${rel}`;
+						const cleanRelative = (rel: string): string => {
+							const segs = rel.split('/').filter((seg) => seg && seg !== '.');
+							if (segs.includes('..')) {
+								throw new NodeOperationError(this.getNode(), `Relative path "${rel}" must not contain ".."`, { itemIndex });
+							}
+							return segs.join('/');
+						};
+						// Remote signature: the ETag when available, otherwise size and modification time.
+						// "folders" holds the relative folder paths, '' for the root itself. With allowMissing a
+						// root that does not exist yet (404) counts as empty instead of failing the item.
+						const listRemote = async (root: string, allowMissing = false) => {
+							const files = new Map<string, SyncFile>();
+							const folders = new Set<string>();
+							if (allowMissing) {
+								const probe = await doRequest({
+									method: 'PROPFIND' as any,
+									url: normalizePath(root),
+									body: `<?xml version="1.0" encoding="utf-8"?>
+<D:propfind xmlns:D="DAV:"><D:prop><D:resourcetype/></D:prop></D:propfind>`,
+									headers: { Depth: '0', 'Content-Type': 'application/xml' },
+									ignoreHttpStatusErrors: true,
+									returnFullResponse: true,
+								});
+								const probeStatus = probe.statusCode ?? probe.status;
+								if (probeStatus === 404) return { files, folders };
+								if (probeStatus >= 400) {
+									throw new NodeOperationError(this.getNode(), toFriendlyError({ statusCode: probeStatus }, root, 'file'), { itemIndex });
+								}
+							}
+							folders.add('');
+							for (const entry of await walkCollection(root, { checksums: true })) {
+								const rel = entry.relativePath as string;
+								if (entry.isCollection) {
+									folders.add(rel);
+									continue;
+								}
+								const modified = Date.parse(String(entry.lastModified ?? ''));
+								files.set(rel, {
+									signature: (entry.etag as string) || `${entry.contentLength}:${entry.lastModified}`,
+									size: entry.contentLength as number | null,
+									modified: isNaN(modified) ? null : modified,
+									contentType: (entry.contentType as string) || undefined,
+									hashes: (entry.checksums as Record<string, string>) ?? {},
+									etag: (entry.etag as string) || undefined,
+								});
+							}
+							return { files, folders };
+						};
+						const listBinary = async () => {
+							const files = new Map<string, SyncFile>();
+							for (let i = 0; i < items.length; i++) {
+								const binaryMeta = items[i].binary?.[binaryPropertyName];
+								if (!binaryMeta) continue;
+								const rel = cleanRelative(
+									syncOptions.relativePathField
+										? String(items[i].json[syncOptions.relativePathField as string] ?? '')
+										: (binaryMeta.fileName ?? ''),
+								);
+								if (!rel) {
+									throw new NodeOperationError(this.getNode(), `Input item ${i} has no file name to sync`, { itemIndex: i });
+								}
+								const buffer = await this.helpers.getBinaryDataBuffer(i, binaryPropertyName);
+								const hashes = await computeDigests(buffer, ['md5', 'sha1', 'sha256']);
+								files.set(rel, {
+									signature: `md5:${hashes.md5}`,
+									size: buffer.length,
+									modified: null,
+									itemIndex: i,
+									contentType: binaryMeta.mimeType,
+									hashes,
+								});
+							}
+							return { files, folders: new Set<string>() };
+						};
+
+						let target = await listRemote(path, true);
+						let source = syncSource === 'remote' ? await listRemote(sourcePath) : await listBinary();
+
+						// The baseline of the last sync tells deletions from additions and which side changed
+						const staticData = this.getWorkflowStaticData('node');
+						const stateKey = `${syncSource}:${sourcePath}->${path}`;
+						const savedStates = (staticData.syncState ?? {}) as Record<string, Record<string, { source: string; target: string }>>;
+						const baseline = useSavedState ? (savedStates[stateKey] ?? {}) : {};
+
+						type SyncAction = { action: string; relativePath: string; side: 'source' | 'target' | null; reason: string };
+						const plan: SyncAction[] = [];
+						const resolveConflict = (relativePath: string, reason: string) => {
+							if (syncOptions.conflictResolution === 'sourceWins') {
+								plan.push({ action: 'upload', relativePath, side: 'target', reason: `${reason} (source wins)` });
+							} else if (syncOptions.conflictResolution === 'targetWins') {
+								plan.push({ action: 'download', relativePath, side: 'source', reason: `${reason} (target wins)` });
+							} else {
+								plan.push({ action: 'conflict', relativePath, side: null, reason });
+							}
+						};
+						// Without a baseline, files only count as equal when that can be proven: same size and a
+						// matching content digest (oc:checksums, or an ETag that is the MD5 of the content)
+						const provenEqual = (s: SyncFile, t: SyncFile): boolean => {
+							if (s.size !== null && t.size !== null && s.size !== t.size) return false;
+							for (const algorithm of Object.keys(s.hashes)) {
+								if (t.hashes[algorithm]) return s.hashes[algorithm] === t.hashes[algorithm];
+							}
+							const md5Etag = (f: SyncFile) => f.etag?.replace(/^W\//, '').replace(/"/g, '').toLowerCase();
+							return (!!s.hashes.md5 && md5Etag(t) === s.hashes.md5) || (!!t.hashes.md5 && md5Etag(s) === t.hashes.md5);
+						};
+						const allPaths = [...new Set([...source.files.keys(), ...target.files.keys()])].sort();
+						for (const rel of allPaths) {
+							const s = source.files.get(rel);
+							const t = target.files.get(rel);
+							const b = baseline[rel];
+							if (s && !t) {
+								if (syncMode === 'twoWay' && b) plan.push({ action: 'delete', relativePath: rel, side: 'source', reason: 'deleted on target' });
+								else plan.push({ action: 'upload', relativePath: rel, side: 'target', reason: 'missing on target' });
+							} else if (!s && t) {
+								if (syncMode === 'mirror') {
+									if (syncOptions.deleteExtraneous) plan.push({ action: 'delete', relativePath: rel, side: 'target', reason: 'not in source' });
+								} else if (b) {
+									plan.push({ action: 'delete', relativePath: rel, side: 'target', reason: 'deleted on source' });
+								} else {
+									plan.push({ action: 'download', relativePath: rel, side: 'source', reason: 'missing on source' });
+								}
+							} else if (s && t) {
+								const sourceChanged = b ? s.signature !== b.source : undefined;
+								const targetChanged = b ? t.signature !== b.target : undefined;
+								if (syncMode === 'mirror') {
+									const changed = b ? sourceChanged || targetChanged : !provenEqual(s, t);
+									if (changed) plan.push({ action: 'upload', relativePath: rel, side: 'target', reason: 'changed' });
+								} else if (b) {
+									if (sourceChanged && targetChanged) resolveConflict(rel, 'changed on both sides');
+									else if (sourceChanged) plan.push({ action: 'upload', relativePath: rel, side: 'target', reason: 'changed on source' });
+									else if (targetChanged) plan.push({ action: 'download', relativePath: rel, side: 'source', reason: 'changed on target' });
+								} else if (!provenEqual(s, t)) {
+									resolveConflict(rel, s.size !== t.size ? 'differs and no previous sync state' : 'cannot be compared and no previous sync state');
+								}
+							}
+						}
+
+						// Create missing parent folders before files are copied into them, starting with the root
+						const ensureFolders = async (root: string, rel: string, existing: Set<string>) => {
+							if (!existing.has('')) {
+								await ensureCollection(root);
+								existing.add('');
+							}
+							const segs = rel.split('/').slice(0, -1);
+							for (let i = 1; i <= segs.length; i++) {
+								const folder = segs.slice(0, i).join('/');
+								if (existing.has(folder)) continue;
+								await doRequest({ method: 'MKCOL' as any, url: normalizePath(joinPath(root, folder)), returnFullResponse: true });
+								existing.add(folder);
+							}
+						};
+
+						const failed = new Set<string>();
+						const downloaded = new Map<string, string>();
+						for (const step of plan) {
+							const targetFile = normalizePath(joinPath(path, step.relativePath));
+							const sourceFile = syncSource === 'remote' ? normalizePath(joinPath(sourcePath, step.relativePath)) : null;
+							const s = source.files.get(step.relativePath);
+							const result: INodeExecutionData = {
+								json: {
+									...step,
+									sourcePath: sourceFile,
+									targetPath: targetFile,
+									dryRun,
+									executed: false,
+									success: null,
+									statusCode: null,
+								},
+								pairedItem: s?.itemIndex ?? itemIndex,
+							};
+							const cannotExecute =
+								step.action === 'conflict' || (syncSource === 'binary' && step.action === 'delete' && step.side === 'source');
+							if (!dryRun && !cannotExecute) {
+								try {
+									let response: any;
+									if (step.action === 'upload') {
+										await ensureFolders(path, step.relativePath, target.folders);
+										if (syncSource === 'remote') {
+											response = await doRequest({
+												method: 'COPY' as any,
+												url: sourceFile!,
+												headers: { Destination: `${baseRoot}${targetFile}`, Overwrite: 'T' },
+												returnFullResponse: true,
+											});
+										} else {
+											response = await doRequest({
+												method: 'PUT',
+												url: targetFile,
+												body: await this.helpers.getBinaryDataBuffer(s!.itemIndex!, binaryPropertyName),
+												headers: { 'Content-Type': s!.contentType || 'application/octet-stream' },
+												returnFullResponse: true,
+											});
+										}
+									} else if (step.action === 'download') {
+										if (syncSource === 'remote') {
+											await ensureFolders(sourcePath, step.relativePath, source.folders);
+											response = await doRequest({
+												method: 'COPY' as any,
+												url: targetFile,
+												headers: { Destination: `${baseRoot}${sourceFile}`, Overwrite: 'T' },
+												returnFullResponse: true,
+											});
+										} else {
+											// Binary sources receive the remote file as an output binary
+											response = await doRequest({
+												method: 'GET',
+												url: targetFile,
+												encoding: 'arraybuffer',
+												returnFullResponse: true,
+											} as Parameters<typeof this.helpers.httpRequest>[0]);
+											const data = Buffer.from(response.body ?? response.data);
+											downloaded.set(step.relativePath, `md5:${createHash('md5').update(data).digest('hex')}`);
+											result.binary = {
+												[binaryPropertyName]: await this.helpers.prepareBinaryData(
+													data,
+													step.relativePath.split('/').pop(),
+													target.files.get(step.relativePath)?.contentType,
+												),
+											};
+										}
+									} else if (step.action === 'delete') {
+										response = await doRequest({
+											method: 'DELETE',
+											url: step.side === 'source' ? sourceFile! : targetFile,
+											returnFullResponse: true,
+										});
+									}
+									const statusCode = response?.statusCode ?? response?.status;
+									Object.assign(result.json, { executed: true, success: statusCode >= 200 && statusCode < 300, statusCode });
+								} catch (e) {
+									failed.add(step.relativePath);
+									Object.assign(result.json, { executed: true, success: false, error: (e as Error).message });
+								}
+							}
+							returnItems.push(result);
+						}
+
+						// Record what both sides look like now, except for files left in conflict or failed
+						if (!dryRun && useSavedState) {
+							target = await listRemote(path, true);
+							if (syncSource === 'remote') source = await listRemote(sourcePath);
+							const unresolved = new Set([...failed, ...plan.filter((p) => p.action === 'conflict').map((p) => p.relativePath)]);
+							const state: Record<string, { source: string; target: string }> = {};
+							for (const [rel, t] of target.files) {
+								// Downloaded files become part of the binary source on the next run
+								const sourceSignature = source.files.get(rel)?.signature ?? downloaded.get(rel);
+								if (unresolved.has(rel)) {
+									if (baseline[rel]) state[rel] = baseline[rel];
+								} else if (sourceSignature) {
+									state[rel] = { source: sourceSignature, target: t.signature };
+								}
+							}
+							staticData.syncState = { ...savedStates, [stateKey]: state };
+						}
+						break;
+					}
+					case 'compress':
+					case 'extract': {
+						const path = this.getNodeParameter('path', itemIndex, '/') as string;
+						const binaryPropertyName = this.getNodeParameter('binaryPropertyName', itemIndex, 'data') as string;
+						const archiveOptions = this.getNodeParameter('archiveOptions', itemIndex, {}) as IDataObject;
+						const maxBytes = Number(archiveOptions.maxSize ?? 100) * 1024 * 1024;
+						const root = hrefToPath(decodeURIComponent(normalizePath(path))).replace(/\/$/, '');
+
+						// Comma-separated globs; commas inside {a,b} groups belong to the pattern
+						const toMatchers = (value: unknown) =>
+							String(value ?? '')
+								.split(/,(?![^{]*\})/)
+								.map((pattern) => pattern.trim())
+								.filter(Boolean)
+								.map((pattern) => ({ pattern, re: globToRegExp(pattern) }));
+						const includes = toMatchers(archiveOptions.include);
+						const excludes = toMatchers(archiveOptions.exclude);
+						// Patterns containing "/" match the path below the folder, others the file name
+						const matches = (matchers: Array<{ pattern: string; re: RegExp }>, relativePath: string) =>
+							matchers.some(({ pattern, re }) => re.test(pattern.includes('/') ? relativePath : relativePath.split('/').pop()!));
+						const selected = (relativePath: string) =>
+							(!includes.length || matches(includes, relativePath)) && !matches(excludes, relativePath);
+						const tooLarge = (size: number) =>
+							new NodeOperationError(
+								this.getNode(),
+								`Archive content exceeds the maximum total size of ${archiveOptions.maxSize ?? 100} MB (${size} bytes)`,
+								{ itemIndex },
+							);
+
+						if (operation === 'compress') {
+							const archiveFormat = this.getNodeParameter('archiveFormat', itemIndex, 'zip') as string;
+							const files = await walkCollection(path, {
+								include: (entry) => !entry.isCollection && selected(entry.relativePath as string),
+							});
+							// Check the listed sizes before anything is downloaded, then the actual ones while downloading
+							const listedSize = files.reduce((sum, file) => sum + ((file.contentLength as number | null) ?? 0), 0);
+							if (listedSize > maxBytes) throw tooLarge(listedSize);
+							const entries = [];
+							let totalSize = 0;
+							for (const file of files) {
+								const response = await doRequest({
+									method: 'GET',
+									url: normalizePath(file.path as string),
+									encoding: 'arraybuffer',
+									returnFullResponse: true,
+								} as Parameters<typeof this.helpers.httpRequest>[0]);
+								const data = Buffer.from(response.body ?? response.data);
+								totalSize += data.length;
+								if (totalSize > maxBytes) throw tooLarge(totalSize);
+								const modified = file.lastModified ? new Date(file.lastModified as string) : undefined;
+								entries.push({
+									name: file.relativePath as string,
+									data,
+									modified: modified && !isNaN(modified.getTime()) ? modified : undefined,
+								});
+							}
+
+							const archive = archiveFormat === 'tarGz' ? createTarGz(entries) : createZip(entries);
+							const extension = archiveFormat === 'tarGz' ? '.tar.gz' : '.zip';
+							const folderName = root.split('/').pop() || 'archive';
+							const fileName = (archiveOptions.fileName as string) || `${folderName}${extension}`;
+							const binary = await this.helpers.prepareBinaryData(
+								archive,
+								fileName,
+								archiveFormat === 'tarGz' ? 'application/gzip' : 'application/zip',
+							);
+							returnItems.push({
+								json: {
+									path: root || '/',
+									format: archiveFormat,
+									fileName,
+									fileCount: entries.length,
+									files: entries.map((entry) => entry.name),
+									totalSize,
+									archiveSize: archive.length,
+								},
+								binary: { [binaryPropertyName]: binary },
+								pairedItem: itemIndex,
+							});
+							break;
+						}
+
+						const overwrite = archiveOptions.overwrite !== false;
+						const archive = await this.helpers.getBinaryDataBuffer(itemIndex, binaryPropertyName);
+						let entries: ReturnType<typeof readZip>;
+						try {
+							entries = readZip(archive);
+						} catch (e) {
+							throw new NodeOperationError(this.getNode(), `Cannot read the zip archive: ${(e as Error).message}`, { itemIndex });
+						}
+						const files = entries.filter((entry) => !entry.isDirectory && entry.name && selected(entry.name));
+						const totalSize = files.reduce((sum, entry) => sum + entry.size, 0);
+						if (totalSize > maxBytes) throw tooLarge(totalSize);
+
+						const createdFolders = (await ensureCollection(root)).created;
+						// Entry names are encoded here segment by segment; normalizePath would decode escapes in them first
+						const rootUrl = normalizePath(root).replace(/\/$/, '');
+						const entryUrl = (name: string) => `${rootUrl}/${name.split('/').map(encodeURIComponent).join('/')}`;
+						// Every folder is created once, parents before children
+						const folders = new Set<string>();
+						for (const entry of files) {
+							const segs = entry.name.split('/').slice(0, -1);
+							for (let i = 1; i <= segs.length; i++) folders.add(segs.slice(0, i).join('/'));
+						}
+						for (const folder of [...folders].sort((a, b) => a.split('/').length - b.split('/').length)) {
+							const folderPath = `${root}/${folder}`;
+							if ((await createCollection(folderPath, entryUrl(folder))) === 201) createdFolders.push(folderPath);
+						}
+
+						const uploaded: string[] = [];
+						const skipped: string[] = [];
+						for (const entry of files) {
+							let data: Buffer;
+							try {
+								data = entry.extract();
+							} catch (e) {
+								throw new NodeOperationError(this.getNode(), (e as Error).message, { itemIndex });
+							}
+							const filePath = `${root}/${entry.name}`;
+							// Without overwrite the server refuses existing files with 412 Precondition Failed
+							const { outcome } = await conditionalRequest(
+								{
+									method: 'PUT',
+									url: entryUrl(entry.name),
+									body: data,
+									headers: { 'Content-Type': 'application/octet-stream' },
+									returnFullResponse: true,
+								},
+								overwrite ? {} : { 'If-None-Match': '*' },
+							);
+							(outcome ? skipped : uploaded).push(filePath);
+						}
+						returnItems.push({
+							json: {
+								path: root || '/',
+								fileCount: uploaded.length,
+								totalSize,
+								uploaded,
+								skipped,
+								createdFolders,
+							},
+							pairedItem: itemIndex,
+						});
+						break;
+					}
+					case 'transfer': {
+						const path = this.getNodeParameter('path', itemIndex, '/') as string;
+						const targetPath = this.getNodeParameter('targetPath', itemIndex, '/') as string;
+						const transferMode = this.getNodeParameter('transferMode', itemIndex, 'copy') as string;
+						const transferOptions = this.getNodeParameter('transferOptions', itemIndex, {}) as IDataObject;
+						const overwrite = transferOptions.overwrite !== false;
+						const preserveModified = transferOptions.preserveModified !== false;
+
+						const targetCreds = (await this.getCredentials('davTargetApi', itemIndex)) as { baseUrl?: string };
+						const targetBase = targetCreds?.baseUrl?.toString().trim();
+						if (!targetBase || !/^https?:\/\//i.test(targetBase)) {
+							throw new NodeOperationError(
+								this.getNode(),
+								'Invalid Base URL in the transfer target credentials. Include protocol (http:// or https://)',
+								{ itemIndex },
+							);
+						}
+						const targetRoot = targetBase.replace(/\/$/, '');
+						const targetUrl = (p: string) => `${targetRoot}${normalizePath(p)}`;
+						const joinPath = (root: string, rel: string) => (rel ? `${root.replace(/\/$/, '')}/${rel}` : root);
+
+						// The source is either a single file or a folder that is copied with all its descendants
+						const probe = await doRequest({
+							method: 'PROPFIND' as any,
+							url: normalizePath(path),
+							body: `<?xml version="1.0" encoding="utf-8"?>
+<D:propfind xmlns:D="DAV:"><D:prop><D:resourcetype/><D:getcontentlength/><D:getlastmodified/></D:prop></D:propfind>`,
+							headers: { Depth: '0', 'Content-Type': 'application/xml' },
+							returnFullResponse: true,
+						});
+						const sourceRoot = parsePropfindResponse(probe.data ?? probe.body)[0];
+						const isFolder = sourceRoot?.isCollection === true;
+						const entries: IDataObject[] = isFolder
+							? await walkCollection(path)
+							: [{ relativePath: '', isCollection: false, contentLength: sourceRoot?.contentLength, lastModified: sourceRoot?.lastModified }];
+
+						// Recreate the folder tree on the target, parents first. Existing folders are kept.
+						const targetFolders = isFolder
+							? [
+									...targetPath.split('/').filter(Boolean).map((_, i, segs) => `/${segs.slice(0, i + 1).join('/')}`),
+									...entries.filter((e) => e.isCollection).map((e) => joinPath(targetPath, e.relativePath as string)),
+								]
+							: targetPath.split('/').filter(Boolean).slice(0, -1).map((_, i, segs) => `/${segs.slice(0, i + 1).join('/')}`);
+						for (const folder of targetFolders) {
+							await createCollection(targetUrl(folder), targetUrl(folder), 'davTargetApi');
+						}
+
+						// Files that failed or were skipped stay on the source
+						let kept = 0;
+						for (const entry of entries.filter((e) => !e.isCollection)) {
+							const rel = entry.relativePath as string;
+							const sourceFile = joinPath(path, rel);
+							const targetFile = joinPath(targetPath, rel);
+							const result: IDataObject = {
+								sourcePath: sourceFile,
+								targetPath: targetFile,
+								relativePath: rel || sourceFile.split('/').pop(),
+								success: false,
+								skipped: false,
+								statusCode: null,
+								size: entry.contentLength ?? null,
+								mtimePreserved: false,
+								sourceDeleted: false,
+							};
+							let body: Readable | undefined;
+							try {
+								// Stream the download straight into the upload instead of buffering whole files
+								const download = await doRequest({
+									method: 'GET',
+									url: normalizePath(sourceFile),
+									encoding: 'stream',
+									returnFullResponse: true,
+								} as Parameters<typeof this.helpers.httpRequest>[0]);
+								body = (download.body ?? download.data) as Readable;
+								// The length is only passed on when it counts the bytes of the stream; for a compressed or
+								// chunked download the upload is sent chunked instead
+								const encoding = String(download.headers?.['content-encoding'] ?? 'identity').trim().toLowerCase();
+								const chunked = /chunked/i.test(String(download.headers?.['transfer-encoding'] ?? ''));
+								const length =
+									encoding === 'identity' && !chunked && /^\d+$/.test(String(download.headers?.['content-length'] ?? ''))
+										? download.headers['content-length']
+										: undefined;
+								const modified = Date.parse(String(entry.lastModified ?? ''));
+								const headers: Record<string, string> = {
+									'Content-Type': download.headers?.['content-type'] || 'application/octet-stream',
+									...(length !== undefined ? { 'Content-Length': String(length) } : {}),
+									// Nextcloud/ownCloud set the modification time from X-OC-Mtime (seconds since the epoch)
+									...(preserveModified && !isNaN(modified) ? { 'X-OC-Mtime': String(Math.floor(modified / 1000)) } : {}),
+									...(overwrite ? {} : { 'If-None-Match': '*' }),
+								};
+								const upload = await doRequest(
+									{
+										method: 'PUT',
+										url: targetUrl(targetFile),
+										body,
+										headers,
+										ignoreHttpStatusErrors: true,
+										returnFullResponse: true,
+									} as Parameters<typeof this.helpers.httpRequest>[0],
+									'davTargetApi',
+								);
+								const statusCode = upload.statusCode ?? upload.status;
+								result.statusCode = statusCode;
+								if (statusCode === 412 && !overwrite) {
+									// The file exists on the target and overwriting is off
+									body.destroy?.();
+									result.skipped = true;
+									result.success = true;
+									kept++;
+								} else if (statusCode >= 400) {
+									body.destroy?.();
+									throw new NodeOperationError(this.getNode(), toFriendlyError({ statusCode }, targetUrl(targetFile), 'file'), { itemIndex });
+								} else {
+									result.success = true;
+									result.mtimePreserved = String(upload.headers?.['x-oc-mtime'] ?? '').toLowerCase() === 'accepted';
+									if (transferMode === 'move') {
+										await doRequest({ method: 'DELETE', url: normalizePath(sourceFile), returnFullResponse: true });
+										result.sourceDeleted = true;
+									}
+								}
+							} catch (e) {
+								body?.destroy?.();
+								kept++;
+								result.success = false;
+								result.error = (e as Error).message;
+							}
+							returnItems.push({ json: result, pairedItem: itemIndex });
+						}
+
+						// A moved folder is removed once all of its files arrived; otherwise the rest stays in place
+						if (transferMode === 'move' && isFolder && !kept) {
+							await doRequest({ method: 'DELETE', url: normalizePath(path), returnFullResponse: true });
+						}
+						if (!returnItems.length) {
+							returnItems.push({
+								json: { sourcePath: path, targetPath, success: true, fileCount: 0 },
+								pairedItem: itemIndex,
+							});
+						}
+						break;
+					}
+					case 'getAcl':
+					case 'setAcl': {
+						const path = this.getNodeParameter('path', itemIndex, '') as string;
+						const readAcl = async (): Promise<IDataObject> => {
+							const response = await doRequest({
+								method: 'PROPFIND' as any,
+								url: path === '/' ? '/' : normalizePath(path),
+								body: `<?xml version="1.0" encoding="utf-8"?>
+<D:propfind xmlns:D="DAV:">
+	<D:prop>
+		<D:owner/>
+		<D:current-user-privilege-set/>
+		<D:acl/>
+	</D:prop>
+</D:propfind>`,
+								headers: { Depth: '0', 'Content-Type': 'application/xml' },
+								returnFullResponse: true,
+							});
+							return {
+								...parseAclResponse(response.data ?? response.body),
+								statusCode: response.statusCode ?? response.status,
+							};
+						};
+
+						if (operation === 'getAcl') {
+							const acl = await readAcl();
+							delete acl.href;
+							returnItems.push({ json: { path, ...acl }, pairedItem: itemIndex });
+							break;
+						}
+
+						const aclMode = this.getNodeParameter('aclMode', itemIndex, 'merge') as string;
+						const entries = ((this.getNodeParameter('aces', itemIndex, {}) as IDataObject).ace ?? []) as IDataObject[];
+						type Ace = { principal: string; invert: boolean; grant: string[]; deny: string[] };
+						const aces: Ace[] = entries.map((entry) => {
+							const type = (entry.principalType as string) || 'href';
+							const principal =
+								type === 'href' ? String(entry.principal ?? '').trim() : type === 'owner' ? 'property:owner' : type;
+							if (!principal) {
+								throw new NodeOperationError(this.getNode(), 'Principal URL is required for entries of type Principal URL', { itemIndex });
+							}
+							const privileges = (entry.privileges ?? []) as string[];
+							if (!privileges.length) {
+								throw new NodeOperationError(this.getNode(), `Select at least one privilege for principal "${principal}"`, { itemIndex });
+							}
+							const deny = entry.action === 'deny';
+							return { principal, invert: false, grant: deny ? [] : privileges, deny: deny ? privileges : [] };
+						});
+
+						// Protected and inherited entries must not be sent back. Merging keeps the other entries
+						// unless the same principal gets a new entry of the same kind (grant or deny).
+						if (aclMode === 'merge') {
+							const kind = (ace: Ace) => `${ace.grant.length ? 'grant' : 'deny'}:${ace.invert ? '!' : ''}${ace.principal}`;
+							const replaced = new Set(aces.map(kind));
+							for (const ace of ((await readAcl()).acl ?? []) as IDataObject[]) {
+								const existing = ace as unknown as Ace;
+								if (ace.protected || ace.inherited || !existing.principal || replaced.has(kind(existing))) continue;
+								aces.push({
+									principal: existing.principal,
+									invert: existing.invert,
+									grant: existing.grant,
+									deny: existing.deny,
+								});
+							}
+						}
+
+						const response = await doRequest({
+							method: 'ACL' as any,
+							url: path === '/' ? '/' : normalizePath(path),
+							body: buildAclBody(aces),
+							headers: { 'Content-Type': 'application/xml' },
+							ignoreHttpStatusErrors: true,
+							returnFullResponse: true,
+						});
+						const statusCode = response.statusCode ?? response.status;
+						if (statusCode >= 400) {
+							// Rejected ACLs name the violated precondition, e.g. no-ace-conflict or not-supported-privilege
+							const errorXml = xmlInner(String(response.data ?? response.body ?? ''), 'error');
+							const conditions = errorXml ? xmlChildren(errorXml).map((e) => e.name) : [];
+							throw new NodeOperationError(
+								this.getNode(),
+								`${toFriendlyError({ statusCode }, path, 'file')}${conditions.length ? ` Failed precondition: ${conditions.join(', ')}.` : ''}`,
+								{ itemIndex },
+							);
+						}
+						returnItems.push({
+							json: {
+								success: true,
+								statusCode,
+								path,
+								acl: aces,
+							},
+							pairedItem: itemIndex,
+						});
+						break;
+					}
+					case 'createShare':
+					case 'listShares':
+					case 'updateShare':
+					case 'deleteShare': {
+						// The OCS API lives next to remote.php of the same Nextcloud/ownCloud installation
+						const ocsRoot = `${origin}${normalizePath(basePath.match(/^(.*?)\/remote\.php(?:\/|$)/i)?.[1] ?? '').replace(/^\/$/, '')}`;
+						const sharesUrl = `${ocsRoot}/ocs/v2.php/apps/files_sharing/api/v1/shares`;
+						// Share paths are relative to the user's home folder, i.e. to .../remote.php/dav/files/<user>
+						const sharePath = (p: string) => {
+							const rel = `/${p.split('/').filter(Boolean).join('/')}`;
+							return /\/files\/[^/]+/.test(basePath) ? rel : rel.replace(/^\/files\/[^/]+(?=\/|$)/, '') || '/';
+						};
+						const shareBody = (fields: IDataObject): IDataObject => {
+							const body: IDataObject = {};
+							const permissions = (fields.permissions ?? []) as number[];
+							if (permissions.length) body.permissions = permissions.reduce((sum, p) => sum + Number(p), 0);
+							if (fields.expireDate) body.expireDate = String(fields.expireDate).slice(0, 10);
+							for (const key of ['password', 'label', 'note'] as const) {
+								if (fields[key] !== undefined && fields[key] !== '') body[key] = fields[key];
+							}
+							if (fields.publicUpload !== undefined) body.publicUpload = fields.publicUpload ? 'true' : 'false';
+							return body;
+						};
+						const ocsRequest = async (opts: Parameters<typeof this.helpers.httpRequest>[0], retry = true): Promise<unknown> => {
+							const response = await doRequest(
+								{
+									...opts,
+									qs: { ...(opts.qs ?? {}), format: 'json' },
+									headers: { 'OCS-APIRequest': 'true', Accept: 'application/json' },
+									json: true,
+									ignoreHttpStatusErrors: true,
+									returnFullResponse: true,
+								},
+								'davApi',
+								retry,
+							);
+							let body = response.body ?? response.data;
+							if (typeof body === 'string') {
+								try {
+									body = JSON.parse(body);
+								} catch {
+									// not an OCS response; reported below
+								}
+							}
+							const meta = body?.ocs?.meta;
+							const statusCode = response.statusCode ?? response.status;
+							if (!meta || statusCode >= 400 || meta.status !== 'ok') {
+								const reason = meta?.message ? ` ${meta.message}` : '';
+								throw new NodeOperationError(
+									this.getNode(),
+									`OCS share request failed with HTTP ${statusCode}${meta?.statuscode ? ` (OCS ${meta.statuscode})` : ''}.${reason} Check that the server is Nextcloud or ownCloud and the sharing app is enabled.`,
+									{ itemIndex },
+								);
+							}
+							return body.ocs.data;
+						};
+						const shareTypes: Record<number, string> = { 0: 'user', 1: 'group', 3: 'publicLink', 4: 'email', 6: 'federated' };
+						const toShare = (share: IDataObject): IDataObject => ({
+							id: String(share.id),
+							shareType: shareTypes[Number(share.share_type)] ?? Number(share.share_type),
+							path: share.path ?? null,
+							itemType: share.item_type ?? null,
+							permissions: share.permissions ?? null,
+							shareWith: share.share_type === 3 ? null : (share.share_with ?? null),
+							shareWithDisplayName: share.share_with_displayname ?? null,
+							url: share.url ?? null,
+							token: share.token ?? null,
+							expiration: share.expiration ?? null,
+							passwordProtected: share.share_type === 3 ? Boolean(share.password ?? share.share_with) : null,
+							label: share.label ?? null,
+							note: share.note ?? null,
+							owner: share.uid_owner ?? null,
+							createdAt: share.stime ? new Date(Number(share.stime) * 1000).toISOString() : null,
+						});
+
+						if (operation === 'listShares') {
+							const path = this.getNodeParameter('path', itemIndex, '') as string;
+							const listOptions = this.getNodeParameter('listOptions', itemIndex, {}) as IDataObject;
+							const shares = (await ocsRequest({
+								method: 'GET',
+								url: sharesUrl,
+								qs: {
+									path: sharePath(path),
+									reshares: listOptions.reshares === true ? 'true' : 'false',
+									subfiles: listOptions.subfiles === true ? 'true' : 'false',
+								},
+							})) as IDataObject[];
+							for (const share of shares ?? []) {
+								returnItems.push({ json: toShare(share), pairedItem: itemIndex });
+							}
+							break;
+						}
+						if (operation === 'createShare') {
+							const path = this.getNodeParameter('path', itemIndex, '') as string;
+							const shareType = Number(this.getNodeParameter('shareType', itemIndex, 3));
+							const shareWith = shareType === 3 ? '' : String(this.getNodeParameter('shareWith', itemIndex, '')).trim();
+							if (shareType !== 3 && !shareWith) {
+								throw new NodeOperationError(this.getNode(), 'Share With is required for this share type', { itemIndex });
+							}
+							// Never retried: a POST that timed out may still have created the share
+							const share = (await ocsRequest(
+								{
+									method: 'POST',
+									url: sharesUrl,
+									body: {
+										path: sharePath(path),
+										shareType,
+										...(shareWith ? { shareWith } : {}),
+										...shareBody(this.getNodeParameter('shareOptions', itemIndex, {}) as IDataObject),
+									},
+								},
+								false,
+							)) as IDataObject;
+							returnItems.push({ json: toShare(share), pairedItem: itemIndex });
+							break;
+						}
+
+						const shareId = String(this.getNodeParameter('shareId', itemIndex, '')).trim();
+						if (!shareId) {
+							throw new NodeOperationError(this.getNode(), 'Share ID is required', { itemIndex });
+						}
+						const shareUrl = `${sharesUrl}/${encodeURIComponent(shareId)}`;
+						if (operation === 'deleteShare') {
+							await ocsRequest({ method: 'DELETE', url: shareUrl });
+							returnItems.push({ json: { success: true, shareId }, pairedItem: itemIndex });
+							break;
+						}
+						const update = shareBody(this.getNodeParameter('updateFields', itemIndex, {}) as IDataObject);
+						if (!Object.keys(update).length) {
+							throw new NodeOperationError(this.getNode(), 'Add at least one field to update', { itemIndex });
+						}
+						const share = (await ocsRequest({ method: 'PUT', url: shareUrl, body: update })) as IDataObject;
+						returnItems.push({ json: toShare(share), pairedItem: itemIndex });
+						break;
+					}
+					case 'listTrash': {
+						const returnAll = this.getNodeParameter('returnAll', itemIndex, false) as boolean;
+						const limit = this.getNodeParameter('limit', itemIndex, 50) as number;
+						const trashUrl = `${davRootUrl}/trashbin/${davUser(this.getNodeParameter('userId', itemIndex, ''))}/trash`;
+
+						const response = await doRequest({
+							method: 'PROPFIND' as any,
+							url: trashUrl,
+							body: `<?xml version="1.0" encoding="utf-8"?>
+<D:propfind xmlns:D="DAV:" xmlns:nc="http://nextcloud.org/ns" xmlns:oc="http://owncloud.org/ns">
+	<D:prop>
+		<nc:trashbin-filename/>
+		<nc:trashbin-original-location/>
+		<nc:trashbin-deletion-time/>
+		<D:getcontentlength/>
+		<D:getcontenttype/>
+		<D:resourcetype/>
+		<oc:fileid/>
+		<oc:size/>
+	</D:prop>
+</D:propfind>`,
+							headers: { Depth: '1', 'Content-Type': 'application/xml' },
+							returnFullResponse: true,
+						});
+
+						const trashPath = decodeURIComponent(trashUrl.replace(/^https?:\/\/[^/]+/i, ''));
+						const entries = parsePropfindResponse(response.data ?? response.body).filter((entry) => {
+							let href = String(entry.href).replace(/^https?:\/\/[^/]+/i, '');
+							try {
+								href = decodeURIComponent(href);
+							} catch {
+								// compare the raw href
+							}
+							return href.replace(/\/$/, '') !== trashPath;
+						});
+						for (const entry of returnAll ? entries : entries.slice(0, limit)) {
+							const props = entry.props as IDataObject;
+							const trashItem = decodeURIComponent(String(entry.href).replace(/\/$/, '').split('/').pop() ?? '');
+							const deletionTime = Number(props['nc:trashbin-deletion-time']);
+							const size = Number(props['oc:size'] ?? entry.contentLength);
+							returnItems.push({
+								json: {
+									trashItem,
+									name: (props['nc:trashbin-filename'] as string) ?? trashItem.replace(/\.d\d+$/, ''),
+									originalLocation: (props['nc:trashbin-original-location'] as string) ?? null,
+									deletedAt: isNaN(deletionTime) ? null : new Date(deletionTime * 1000).toISOString(),
+									deletionTime: isNaN(deletionTime) ? null : deletionTime,
+									isCollection: entry.isCollection,
+									size: isNaN(size) ? null : size,
+									contentType: entry.contentType,
+									fileId: (props['oc:fileid'] as string) ?? null,
+								},
+								pairedItem: itemIndex,
+							});
+						}
+						break;
+					}
+					case 'restoreTrash':
+					case 'deleteTrash': {
+						const trashRoot = `${davRootUrl}/trashbin/${davUser(this.getNodeParameter('userId', itemIndex, ''))}`;
+						// Accept the plain item name as well as a path or href ending in it
+						const trashItem = String(this.getNodeParameter('trashItem', itemIndex, ''))
+							.split('/')
+							.filter(Boolean)
+							.pop();
+						if (!trashItem) {
+							throw new NodeOperationError(this.getNode(), 'Trash Item is required', { itemIndex });
+						}
+						const itemUrl = `${trashRoot}/trash${normalizePath(trashItem)}`;
+
+						const response = await doRequest(
+							operation === 'restoreTrash'
+								? {
+										method: 'MOVE' as any,
+										url: itemUrl,
+										headers: { Destination: `${trashRoot}/restore${normalizePath(trashItem)}` },
+										returnFullResponse: true,
+									}
+								: { method: 'DELETE', url: itemUrl, returnFullResponse: true },
+						);
+						const statusCode = response.statusCode ?? response.status;
+						returnItems.push({
+							json: {
+								success: statusCode >= 200 && statusCode < 300,
+								statusCode,
+								trashItem,
+							},
+							pairedItem: itemIndex,
+						});
+						break;
+					}
+					case 'emptyTrash': {
+						const trashUrl = `${davRootUrl}/trashbin/${davUser(this.getNodeParameter('userId', itemIndex, ''))}/trash`;
+						const response = await doRequest({ method: 'DELETE', url: trashUrl, returnFullResponse: true });
+						const statusCode = response.statusCode ?? response.status;
+						returnItems.push({
+							json: {
+								success: statusCode >= 200 && statusCode < 300,
+								statusCode,
+							},
+							pairedItem: itemIndex,
+						});
+						break;
+					}
+					case 'listVersions':
+					case 'downloadVersion':
+					case 'restoreVersion': {
+						const path = this.getNodeParameter('path', itemIndex, '') as string;
+						const versionApi = this.getNodeParameter('versionApi', itemIndex, 'nextcloud') as string;
+						const versionId =
+							operation === 'listVersions' ? '' : String(this.getNodeParameter('versionId', itemIndex, '')).trim();
+						if (operation !== 'listVersions' && !versionId) {
+							throw new NodeOperationError(this.getNode(), 'Version ID is required', { itemIndex });
+						}
+
+						// Nextcloud addresses versions by file ID and timestamp, DeltaV by the href of each version
+						let versionsUrl = '';
+						let versionUrl = '';
+						let restoreUrl = '';
+						if (versionApi === 'nextcloud') {
+							const probe = await doRequest({
+								method: 'PROPFIND' as any,
+								url: normalizePath(path),
+								body: `<?xml version="1.0" encoding="utf-8"?>
+<D:propfind xmlns:D="DAV:" xmlns:oc="http://owncloud.org/ns">
+	<D:prop>
+		<oc:fileid/>
+	</D:prop>
+</D:propfind>`,
+								headers: { Depth: '0', 'Content-Type': 'application/xml' },
+								returnFullResponse: true,
+							});
+							const fileId = (parsePropfindResponse(probe.data ?? probe.body)[0]?.props as IDataObject)?.['oc:fileid'];
+							if (typeof fileId !== 'string' || !fileId) {
+								throw new NodeOperationError(
+									this.getNode(),
+									`Could not read the file ID (oc:fileid) of "${path}". The server may not support Nextcloud versions.`,
+									{ itemIndex },
+								);
+							}
+							const userRoot = `${davRootUrl}/versions/${davUser(this.getNodeParameter('userId', itemIndex, ''))}`;
+							versionsUrl = `${userRoot}/versions/${encodeURIComponent(fileId)}`;
+							versionUrl = `${versionsUrl}/${encodeURIComponent(versionId)}`;
+							restoreUrl = `${userRoot}/restore/target`;
+						} else if (versionId) {
+							// Only the path of a version href is used, so requests stay on the configured server
+							const href = versionId.replace(/^https?:\/\/[^/]+/i, '');
+							if (!href.startsWith('/')) {
+								throw new NodeOperationError(
+									this.getNode(),
+									'Version ID must be the href of a version as returned by List Versions',
+									{ itemIndex },
+								);
+							}
+							versionUrl = `${origin}${href}`;
+						}
+
+						if (operation === 'listVersions') {
+							const response = await doRequest(
+								versionApi === 'nextcloud'
+									? {
+											method: 'PROPFIND' as any,
+											url: versionsUrl,
+											body: `<?xml version="1.0" encoding="utf-8"?>
+<D:propfind xmlns:D="DAV:" xmlns:nc="http://nextcloud.org/ns">
+	<D:prop>
+		<D:getlastmodified/>
+		<D:getcontentlength/>
+		<D:getcontenttype/>
+		<D:getetag/>
+		<nc:version-label/>
+		<nc:version-author/>
+	</D:prop>
+</D:propfind>`,
+											headers: { Depth: '1', 'Content-Type': 'application/xml' },
+											returnFullResponse: true,
+										}
+									: {
+											method: 'REPORT' as any,
+											url: normalizePath(path),
+											body: `<?xml version="1.0" encoding="utf-8"?>
+<D:version-tree xmlns:D="DAV:">
+	<D:prop>
+		<D:version-name/>
+		<D:creator-displayname/>
+		<D:comment/>
+		<D:getlastmodified/>
+		<D:getcontentlength/>
+		<D:getcontenttype/>
+		<D:getetag/>
+	</D:prop>
+</D:version-tree>`,
+											headers: { Depth: '0', 'Content-Type': 'application/xml' },
+											returnFullResponse: true,
+										},
+							);
+							const text = (value: unknown) => (typeof value === 'string' ? value : null);
+							for (const entry of parsePropfindResponse(response.data ?? response.body)) {
+								const props = entry.props as IDataObject;
+								const href = String(entry.href).replace(/^https?:\/\/[^/]+/i, '');
+								if (versionApi === 'nextcloud') {
+									// The versions collection lists itself first
+									if (entry.isCollection) continue;
+									returnItems.push({
+										json: {
+											path,
+											versionId: decodeURIComponent(href.split('/').pop() ?? ''),
+											label: text(props['nc:version-label']),
+											author: text(props['nc:version-author']),
+											lastModified: entry.lastModified,
+											size: entry.contentLength,
+											contentType: entry.contentType,
+											etag: entry.etag,
+										},
+										pairedItem: itemIndex,
+									});
+								} else {
+									returnItems.push({
+										json: {
+											path,
+											versionId: href,
+											versionName: text(props['version-name']),
+											creator: text(props['creator-displayname']),
+											comment: text(props.comment),
+											lastModified: entry.lastModified,
+											size: entry.contentLength,
+											contentType: entry.contentType,
+											etag: entry.etag,
+										},
+										pairedItem: itemIndex,
+									});
+								}
+							}
+							break;
+						}
+
+						if (operation === 'downloadVersion') {
+							const response = await doRequest({
+								method: 'GET',
+								url: versionUrl,
+								// stream the body straight into the binary data store
+								encoding: 'stream',
+								returnFullResponse: true,
+							} as Parameters<typeof this.helpers.httpRequest>[0]);
+							const contentType = response.headers?.['content-type'] as string | undefined;
+							const contentLength = response.headers?.['content-length'] as string | undefined;
+							const fileName = normalizePath(path).split('/').filter(Boolean).pop() || 'file';
+							const binary = await this.helpers.prepareBinaryData(
+								(response.body ?? response.data) as Buffer | Readable,
+								decodeURIComponent(fileName),
+								contentType,
+							);
+							returnItems.push({
+								json: {
+									path,
+									versionId,
+									contentType: contentType ?? 'application/octet-stream',
+									contentLength: contentLength ? Number(contentLength) : binary.fileSize ? Number(binary.fileSize) : null,
+									lastModified: (response.headers?.['last-modified'] as string | undefined) ?? null,
+									etag: (response.headers?.etag as string | undefined) ?? null,
+									statusCode: response.statusCode ?? response.status,
+								},
+								binary: { data: binary },
+								pairedItem: itemIndex,
+							});
+							break;
+						}
+
+						// Nextcloud restores by moving the version to the restore collection,
+						// DeltaV by an UPDATE of the version-controlled resource to the chosen version
+						const response = await doRequest(
+							versionApi === 'nextcloud'
+								? {
+										method: 'MOVE' as any,
+										url: versionUrl,
+										headers: { Destination: restoreUrl },
+										returnFullResponse: true,
+									}
+								: {
+										method: 'UPDATE' as any,
+										url: normalizePath(path),
+										body: `<?xml version="1.0" encoding="utf-8"?>
+<D:update xmlns:D="DAV:">
+	<D:version>
+		<D:href>${escapeXml(versionUrl.slice(origin.length))}</D:href>
+	</D:version>
+</D:update>`,
+										headers: { 'Content-Type': 'application/xml' },
+										returnFullResponse: true,
+									},
+						);
+						const statusCode = response.statusCode ?? response.status;
+						returnItems.push({
+							json: {
+								success: statusCode >= 200 && statusCode < 300,
+								statusCode,
+								path,
+								versionId,
+							},
+							pairedItem: itemIndex,
+						});
+						break;
+					}
 					default:
 						throw new NodeOperationError(this.getNode(), `Operation ${operation} not supported`);
 				}
@@ -569,8 +2969,33 @@ export class WebDav implements INodeType {
 					throw new NodeOperationError(this.getNode(), error as any, { itemIndex });
 				}
 			}
+			if (httpRetries) {
+				return returnItems.map((item) => ({ ...item, json: { ...item.json, httpRetries } }));
+			}
+			return returnItems;
+		};
+
+		// Items of the plain file operations are independent, so they can run in parallel batches.
+		// Results are collected per item and returned in input order.
+		const batchable = ['get', 'put', 'delete', 'copy', 'move', 'mkcol'];
+		const batching =
+			items.length > 1 && batchable.includes(this.getNodeParameter('operation', 0) as string)
+				? (this.getNodeParameter('batching', 0, {}) as IDataObject)
+				: {};
+		const maxParallel = Math.max(1, Number(batching.maxParallel ?? 1));
+		const batchInterval = Math.max(0, Number(batching.batchInterval ?? 0));
+		const results: INodeExecutionData[][] = [];
+		for (let start = 0; start < items.length; start += maxParallel) {
+			if (start > 0 && batchInterval) await wait(batchInterval);
+			const batch = items.slice(start, start + maxParallel).map((_, offset) => start + offset);
+			(await Promise.all(batch.map(processItem))).forEach((output, offset) => {
+				results[start + offset] = output;
+			});
 		}
 
+		const returnItems = results.flatMap((output, itemIndex) =>
+			output.map((item) => ({ ...item, pairedItem: item.pairedItem ?? { item: itemIndex } })),
+		);
 		return [returnItems];
 	}
 }
@@ -1,4 +1,5 @@
 import { INodeProperties } from 'n8n-workflow';
+import { retryFields } from '../utils/retry';
 
 // WebDAV Operations
 export const webDavOperations: INodeProperties[] = [
@@ -13,102 +14,243 @@ export const webDavOperations: INodeProperties[] = [
 			},
 		},
 		options: [
+			{
+				name: 'Compress Folder',
+				value: 'compress',
+				description: 'Download the files of a folder into a single zip or tar.gz archive',
+				action: 'Compress folder',
+			},
+			{
+				name: 'Copy Resource',
+				value: 'copy',
+				description: 'Copy a file or directory on the WebDAV server',
+				action: 'Copy resource',
+			},
+			{
+				name: 'Create Directory',
+				value: 'mkcol',
+				description: 'Create a directory on the WebDAV server',
+				action: 'Create directory',
+			},
+			{
+				name: 'Delete Resource',
+				value: 'delete',
+				description: 'Delete a file or directory from the WebDAV server',
+				action: 'Delete resource',
+			},
 			{
 				name: 'Download File',
 				value: 'get',
 				description: 'Download a file from the WebDAV server',
 				action: 'Download file',
-				routing: {
-					request: {
-						method: 'GET',
-						url: '/{{path}}',
-					},
-				},
 			},
 			{
-				name: 'Upload File',
-				value: 'put',
-				description: 'Upload a file to the WebDAV server',
-				action: 'Upload file',
-				routing: {
-					request: {
-						method: 'PUT',
-						url: '/{{path}}',
-					},
-				},
+				name: 'Extract Archive',
+				value: 'extract',
+				description: 'Upload the files of a zip archive into a folder',
+				action: 'Extract archive',
+			},
+			{
+				name: 'Get ACL',
+				value: 'getAcl',
+				description: 'Get the access control list, owner and current user privileges of a resource',
+				action: 'Get ACL',
+			},
+			{
+				name: 'Get Changes',
+				value: 'changes',
+				description: 'Get the resources added, modified or removed in a folder since the last sync token',
+				action: 'Get changes',
 			},
 			{
 				name: 'Get Properties',
 				value: 'propfind',
 				description: 'Get properties of a WebDAV resource',
 				action: 'Get properties',
-				routing: {
-					request: {
-						method: 'PROPFIND' as any,
-						url: '/{{path}}',
-						headers: {
-							Depth: '1',
-						},
-					},
-				},
 			},
 			{
-				name: 'Create Directory',
-				value: 'mkcol',
-				description: 'Create a directory on the WebDAV server',
-				action: 'Create directory',
-				routing: {
-					request: {
-						method: 'MKCOL' as any,
-						url: '/{{path}}',
-					},
-				},
+				name: 'Get Quota',
+				value: 'quota',
+				description: 'Get the used and available storage of a folder',
+				action: 'Get quota',
 			},
 			{
-				name: 'Delete Resource',
-				value: 'delete',
-				description: 'Delete a file or directory from the WebDAV server',
-				action: 'Delete resource',
-				routing: {
-					request: {
-						method: 'DELETE',
-						url: '/{{path}}',
-					},
-				},
+				name: 'Get Server Capabilities',
+				value: 'capabilities',
+				description: 'Find out which DAV classes, methods and features the server supports',
+				action: 'Get server capabilities',
+			},
+			{
+				name: 'List Folder',
+				value: 'list',
+				description: 'List the files and folders in a directory, one item per resource',
+				action: 'List folder',
+			},
+			{
+				name: 'Lock Resource',
+				value: 'lock',
+				description: 'Lock a file or directory to prevent concurrent edits',
+				action: 'Lock resource',
 			},
 			{
 				name: 'Move Resource',
 				value: 'move',
 				description: 'Move a file or directory on the WebDAV server',
 				action: 'Move resource',
-				routing: {
-					request: {
-						method: 'MOVE' as any,
-						url: '/{{path}}',
-						headers: {
-							Destination: '={{ $parameter.destination }}',
-						},
-					},
-				},
 			},
 			{
-				name: 'Copy Resource',
-				value: 'copy',
-				description: 'Copy a file or directory on the WebDAV server',
-				action: 'Copy resource',
-				routing: {
-					request: {
-						method: 'COPY' as any,
-						url: '/{{path}}',
-						headers: {
-							Destination: '={{ $parameter.destination }}',
-						},
-					},
-				},
+				name: 'Search',
+				value: 'search',
+				description: 'Search files on the server with a DASL basic search (RFC 5323)',
+				action: 'Search files',
+			},
+			{
+				name: 'Set ACL',
+				value: 'setAcl',
+				description: 'Grant or deny privileges to principals on a resource',
+				action: 'Set ACL',
+			},
+			{
+				name: 'Set Properties',
+				value: 'proppatch',
+				description: 'Set or remove custom properties of a WebDAV resource',
+				action: 'Set properties',
+			},
+			{
+				name: 'Sync Folder',
+				value: 'sync',
+				description: 'Compare a remote folder with input files or another remote folder and apply the differences',
+				action: 'Sync folder',
+			},
+			{
+				name: 'Transfer',
+				value: 'transfer',
+				description: 'Copy or move a file or folder tree to another DAV server',
+				action: 'Transfer to another server',
+			},
+			{
+				name: 'Unlock Resource',
+				value: 'unlock',
+				description: 'Release a lock previously taken on a file or directory',
+				action: 'Unlock resource',
+			},
+			{
+				name: 'Upload File',
+				value: 'put',
+				description: 'Upload a file to the WebDAV server',
+				action: 'Upload file',
 			},
 		],
 		default: 'get',
 	},
+	{
+		displayName: 'Operation',
+		name: 'operation',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: {
+			show: {
+				resource: ['trash'],
+			},
+		},
+		options: [
+			{
+				name: 'Delete Permanently',
+				value: 'deleteTrash',
+				description: 'Permanently delete an item from the trash bin',
+				action: 'Delete a trash item permanently',
+			},
+			{
+				name: 'Empty Trash',
+				value: 'emptyTrash',
+				description: 'Permanently delete all items in the trash bin',
+				action: 'Empty the trash bin',
+			},
+			{
+				name: 'List Trash',
+				value: 'listTrash',
+				description: 'List deleted items with their original location and deletion time',
+				action: 'List trash items',
+			},
+			{
+				name: 'Restore',
+				value: 'restoreTrash',
+				description: 'Restore a deleted item to its original location',
+				action: 'Restore a trash item',
+			},
+		],
+		default: 'listTrash',
+	},
+	{
+		displayName: 'Operation',
+		name: 'operation',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: {
+			show: {
+				resource: ['version'],
+			},
+		},
+		options: [
+			{
+				name: 'Download Version',
+				value: 'downloadVersion',
+				description: 'Download an earlier version of a file',
+				action: 'Download a file version',
+			},
+			{
+				name: 'List Versions',
+				value: 'listVersions',
+				description: 'List the earlier versions of a file',
+				action: 'List file versions',
+			},
+			{
+				name: 'Restore Version',
+				value: 'restoreVersion',
+				description: 'Make an earlier version the current content of a file',
+				action: 'Restore a file version',
+			},
+		],
+		default: 'listVersions',
+	},
+	{
+		displayName: 'Operation',
+		name: 'operation',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: {
+			show: {
+				resource: ['share'],
+			},
+		},
+		options: [
+			{
+				name: 'Create Share',
+				value: 'createShare',
+				description: 'Share a file or folder by public link, with a user, a group or by email',
+				action: 'Create a share',
+			},
+			{
+				name: 'Delete Share',
+				value: 'deleteShare',
+				description: 'Remove a share',
+				action: 'Delete a share',
+			},
+			{
+				name: 'List Shares',
+				value: 'listShares',
+				description: 'List the shares of a file or folder',
+				action: 'List shares',
+			},
+			{
+				name: 'Update Share',
+				value: 'updateShare',
+				description: 'Change the permissions, expiration date, password or label of a share',
+				action: 'Update a share',
+			},
+		],
+		default: 'createShare',
+	},
 ];
 
 // WebDAV Fields
@@ -165,6 +307,36 @@ const putOperationFields: INodeProperties[] = [
 		},
 		required: true,
 	},
+	{
+		displayName: 'Input Data',
+		name: 'inputDataMode',
+		type: 'options',
+		default: 'binary',
+		description: 'Where the content of the file comes from',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['put'],
+			},
+		},
+		options: [
+			{
+				name: 'Binary Property',
+				value: 'binary',
+				description: 'Upload a binary property of the input item',
+			},
+			{
+				name: 'JSON of Item',
+				value: 'json',
+				description: 'Upload the JSON data of the input item as a JSON document',
+			},
+			{
+				name: 'Text',
+				value: 'text',
+				description: 'Upload text such as generated CSV, Markdown or XML',
+			},
+		],
+	},
 	{
 		displayName: 'Binary Property',
 		name: 'binaryPropertyName',
@@ -176,10 +348,64 @@ const putOperationFields: INodeProperties[] = [
 			show: {
 				resource: ['file'],
 				operation: ['put'],
+				inputDataMode: ['binary'],
 			},
 		},
 		required: true,
 	},
+	{
+		displayName: 'File Content',
+		name: 'fileContent',
+		type: 'string',
+		typeOptions: {
+			rows: 6,
+		},
+		default: '',
+		placeholder: 'id,name\n1,Alice',
+		description: 'Text to write to the file. Supports expressions like {{$JSON.csv}}.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['put'],
+				inputDataMode: ['text'],
+			},
+		},
+	},
+	{
+		displayName: 'Content Type',
+		name: 'contentType',
+		type: 'string',
+		default: '',
+		placeholder: 'text/csv',
+		description: 'MIME type sent with the file. Defaults to text/plain for text and to the JSON MIME type for JSON of Item.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['put'],
+				inputDataMode: ['text', 'json'],
+			},
+		},
+	},
+	{
+		displayName: 'Charset',
+		name: 'charset',
+		type: 'options',
+		default: 'utf-8',
+		description: 'Character encoding of the uploaded text, also added to the Content-Type header',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['put'],
+				inputDataMode: ['text', 'json'],
+			},
+		},
+		options: [
+			{ name: 'ISO-8859-1 (Latin-1)', value: 'iso-8859-1' },
+			{ name: 'US-ASCII', value: 'us-ascii' },
+			{ name: 'UTF-16LE', value: 'utf-16le' },
+			{ name: 'UTF-8', value: 'utf-8' },
+		],
+	},
 ];
 
 const propfindOperationFields: INodeProperties[] = [
@@ -225,133 +451,2497 @@ const propfindOperationFields: INodeProperties[] = [
 			},
 		],
 	},
-];
-
-const mkcolOperationFields: INodeProperties[] = [
 	{
-		displayName: 'Path',
-		name: 'path',
-		type: 'string',
-		default: '',
-		placeholder: '/path/to/new/directory',
-		description: 'Path of the directory to create on the WebDAV server. Start with "/". Spaces and special characters are auto-encoded.',
+		displayName: 'Properties',
+		name: 'propertyMode',
+		type: 'options',
+		default: 'standard',
+		description: 'Which properties to request from the server',
 		displayOptions: {
 			show: {
 				resource: ['file'],
-				operation: ['mkcol'],
+				operation: ['propfind'],
 			},
 		},
-		required: true,
+		options: [
+			{
+				name: 'All Properties',
+				value: 'allprop',
+				description: 'Request all live and dead properties the server returns by default (allprop)',
+			},
+			{
+				name: 'Property Names Only',
+				value: 'propname',
+				description: 'List the names of all properties defined on each resource, without values (propname)',
+			},
+			{
+				name: 'Selected Properties',
+				value: 'custom',
+				description: 'Request only the properties picked below',
+			},
+			{
+				name: 'Standard Properties',
+				value: 'standard',
+				description: 'Content type, last modified, content length and resource type',
+			},
+		],
 	},
-];
-
-const deleteOperationFields: INodeProperties[] = [
 	{
-		displayName: 'Path',
-		name: 'path',
-		type: 'string',
-		default: '',
-		placeholder: '/path/to/resource',
-		description: 'Path to the file or directory to delete. Start with "/". Spaces and special characters are auto-encoded.',
+		displayName: 'Properties to Retrieve',
+		name: 'properties',
+		type: 'multiOptions',
+		default: [],
+		description: 'Well-known properties to request. Resource type is always included.',
 		displayOptions: {
 			show: {
 				resource: ['file'],
-				operation: ['delete'],
+				operation: ['propfind'],
+				propertyMode: ['custom'],
 			},
 		},
-		required: true,
+		options: [
+			{ name: 'Content Language', value: '{DAV:}getcontentlanguage' },
+			{ name: 'Content Length', value: '{DAV:}getcontentlength' },
+			{ name: 'Content Type', value: '{DAV:}getcontenttype' },
+			{ name: 'Creation Date', value: '{DAV:}creationdate' },
+			{ name: 'Display Name', value: '{DAV:}displayname' },
+			{ name: 'ETag', value: '{DAV:}getetag' },
+			{ name: 'Last Modified', value: '{DAV:}getlastmodified' },
+			{ name: 'Lock Discovery', value: '{DAV:}lockdiscovery' },
+			{
+				name: 'Nextcloud Checksums',
+				value: '{http://owncloud.org/ns}checksums',
+				description: 'Nextcloud/ownCloud property oc:checksums',
+			},
+			{
+				name: 'Nextcloud Favorite',
+				value: '{http://owncloud.org/ns}favorite',
+				description: 'Nextcloud/ownCloud property oc:favorite',
+			},
+			{
+				name: 'Nextcloud File ID',
+				value: '{http://owncloud.org/ns}fileid',
+				description: 'Nextcloud/ownCloud property oc:fileid',
+			},
+			{
+				name: 'Nextcloud Has Preview',
+				value: '{http://nextcloud.org/ns}has-preview',
+				description: 'Nextcloud/ownCloud property nc:has-preview',
+			},
+			{
+				name: 'Nextcloud Owner Display Name',
+				value: '{http://owncloud.org/ns}owner-display-name',
+				description: 'Nextcloud/ownCloud property oc:owner-display-name',
+			},
+			{
+				name: 'Nextcloud Owner ID',
+				value: '{http://owncloud.org/ns}owner-id',
+				description: 'Nextcloud/ownCloud property holding the user name of the owner',
+			},
+			{
+				name: 'Nextcloud Permissions',
+				value: '{http://owncloud.org/ns}permissions',
+				description: 'Nextcloud/ownCloud property oc:permissions',
+			},
+			{
+				name: 'Nextcloud Size',
+				value: '{http://owncloud.org/ns}size',
+				description: 'Nextcloud/ownCloud property oc:size',
+			},
+			{ name: 'Quota Available Bytes', value: '{DAV:}quota-available-bytes' },
+			{ name: 'Quota Used Bytes', value: '{DAV:}quota-used-bytes' },
+			{ name: 'Supported Lock', value: '{DAV:}supportedlock' },
+		],
 	},
-];
-
-const moveOperationFields: INodeProperties[] = [
 	{
-		displayName: 'Source Path',
-		name: 'path',
-		type: 'string',
-		default: '',
-		placeholder: '/path/to/source',
-		description: 'Path to the resource to move. Start with "/". Spaces and special characters are auto-encoded.',
+		displayName: 'Additional Properties',
+		name: 'customProperties',
+		type: 'fixedCollection',
+		placeholder: 'Add Property',
+		default: {},
+		typeOptions: {
+			multipleValues: true,
+		},
+		description: 'Custom or server-specific properties to request, identified by namespace and name',
 		displayOptions: {
 			show: {
 				resource: ['file'],
-				operation: ['move'],
+				operation: ['propfind'],
+				propertyMode: ['allprop', 'custom'],
 			},
 		},
-		required: true,
+		options: [
+			{
+				displayName: 'Property',
+				name: 'property',
+				values: [
+					{
+						displayName: 'Namespace',
+						name: 'namespace',
+						type: 'string',
+						default: '',
+						placeholder: 'http://example.com/ns',
+						description: 'XML namespace URI of the property',
+					},
+					{
+						displayName: 'Name',
+						name: 'name',
+						type: 'string',
+						default: '',
+						placeholder: 'customer-ID',
+						description: 'Local name of the property element, without prefix',
+					},
+				],
+			},
+		],
 	},
+];
+
+const changesOperationFields: INodeProperties[] = [
+	{
+		displayName: 'Path',
+		name: 'path',
+		type: 'string',
+		default: '/',
+		placeholder: '/path/to/folder',
+		description: 'Folder to watch for changes. The server must support the sync-collection report (RFC 6578), as Nextcloud does.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['changes'],
+			},
+		},
+		required: true,
+	},
+	{
+		displayName: 'Sync Token',
+		name: 'syncCursor',
+		type: 'string',
+		default: '',
+		placeholder: 'http://sabre.io/ns/sync/42',
+		description: 'Token returned by a previous run. Leave empty to use the token saved by this node, or to start with a full listing.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['changes'],
+			},
+		},
+	},
+	{
+		displayName: 'Options',
+		name: 'changesOptions',
+		type: 'collection',
+		placeholder: 'Add Option',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['changes'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Include Subfolders',
+				name: 'recursive',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to report changes anywhere below the folder (Depth: infinity) instead of only its direct members',
+			},
+			{
+				displayName: 'Max Results',
+				name: 'limit',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 50,
+				description: 'Max number of results to return',
+			},
+			{
+				displayName: 'Use Saved Token',
+				name: 'useSavedState',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to remember the new token and the known resources in the workflow static data. Known resources are needed to tell added from modified ones. Only active workflows persist it.',
+			},
+		],
+	},
+];
+
+const quotaOperationFields: INodeProperties[] = [
+	{
+		displayName: 'Path',
+		name: 'path',
+		type: 'string',
+		default: '/',
+		placeholder: '/path/to/folder',
+		description: 'Folder to get the quota of. Use "/" for the root of the Base URL. Spaces and special characters are auto-encoded.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['quota'],
+			},
+		},
+		required: true,
+	},
+];
+
+const capabilitiesOperationFields: INodeProperties[] = [
+	{
+		displayName: 'Path',
+		name: 'path',
+		type: 'string',
+		default: '/',
+		placeholder: '/path/to/folder',
+		description: 'Path to send OPTIONS to. Some servers only announce DAV support below the root. Spaces and special characters are auto-encoded.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['capabilities'],
+			},
+		},
+	},
+];
+
+const listOperationFields: INodeProperties[] = [
+	{
+		displayName: 'Path',
+		name: 'path',
+		type: 'string',
+		default: '/',
+		placeholder: '/path/to/folder',
+		description: 'Path of the folder to list. Use "/" for root. Spaces and special characters are auto-encoded.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['list'],
+			},
+		},
+		required: true,
+	},
+	{
+		displayName: 'Recursive',
+		name: 'recursive',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to include the contents of subfolders. Folders are walked one level at a time, so servers that reject "Depth: infinity" work too.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['list'],
+			},
+		},
+	},
+	{
+		displayName: 'Max Depth',
+		name: 'maxDepth',
+		type: 'number',
+		default: 0,
+		typeOptions: {
+			minValue: 0,
+		},
+		description: 'How many folder levels to descend. 1 lists only the folder itself; 0 means no limit.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['list'],
+				recursive: [true],
+			},
+		},
+	},
+	{
+		displayName: 'Return All',
+		name: 'returnAll',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to return all results or only up to a given limit',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['list'],
+			},
+		},
+	},
+	{
+		displayName: 'Limit',
+		name: 'limit',
+		type: 'number',
+		default: 50,
+		typeOptions: {
+			minValue: 1,
+		},
+		description: 'Max number of results to return',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['list'],
+				returnAll: [false],
+			},
+		},
+	},
+	{
+		displayName: 'Filters',
+		name: 'filters',
+		type: 'collection',
+		placeholder: 'Add Filter',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['list'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Max Size (Bytes)',
+				name: 'maxSize',
+				type: 'number',
+				default: 0,
+				typeOptions: {
+					minValue: 0,
+				},
+				description: 'Only return files up to this size. Folders are not affected.',
+			},
+			{
+				displayName: 'Min Size (Bytes)',
+				name: 'minSize',
+				type: 'number',
+				default: 0,
+				typeOptions: {
+					minValue: 0,
+				},
+				description: 'Only return files of at least this size. Folders are not affected.',
+			},
+			{
+				displayName: 'Modified Since',
+				name: 'modifiedSince',
+				type: 'dateTime',
+				default: '',
+				description: 'Only return resources modified at or after this date',
+			},
+			{
+				displayName: 'Name Pattern',
+				name: 'namePattern',
+				type: 'string',
+				default: '',
+				placeholder: '*.pdf',
+				description: 'Only return resources whose name matches. Patterns containing "/" are matched against the path below the listed folder, e.g. **/invoices/*.pdf.',
+			},
+			{
+				displayName: 'Pattern Type',
+				name: 'patternType',
+				type: 'options',
+				default: 'glob',
+				options: [
+					{
+						name: 'Glob',
+						value: 'glob',
+						description: 'Wildcards like *.csv, report-??.xlsx or {a,b}.txt (case-insensitive)',
+					},
+					{
+						name: 'Regular Expression',
+						value: 'regex',
+						description: 'A JavaScript regular expression',
+					},
+				],
+			},
+			{
+				displayName: 'Type',
+				name: 'type',
+				type: 'options',
+				default: 'all',
+				options: [
+					{
+						name: 'Files and Folders',
+						value: 'all',
+					},
+					{
+						name: 'Files Only',
+						value: 'files',
+					},
+					{
+						name: 'Folders Only',
+						value: 'folders',
+					},
+				],
+			},
+		],
+	},
+];
+
+const searchOperationFields: INodeProperties[] = [
+	{
+		displayName: 'Scope Path',
+		name: 'path',
+		type: 'string',
+		default: '/',
+		placeholder: '/path/to/folder',
+		description: 'Folder to search in. Use "/" for root. Spaces and special characters are auto-encoded.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['search'],
+			},
+		},
+		required: true,
+	},
+	{
+		displayName: 'Query',
+		name: 'queryMode',
+		type: 'options',
+		default: 'builder',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['search'],
+			},
+		},
+		options: [
+			{
+				name: 'Build Query',
+				value: 'builder',
+				description: 'Combine the conditions below into a basic search',
+			},
+			{
+				name: 'Raw XML',
+				value: 'raw',
+				description: 'Send a complete DAV:searchrequest body',
+			},
+		],
+	},
+	{
+		displayName: 'Search Request XML',
+		name: 'rawQuery',
+		type: 'string',
+		typeOptions: {
+			rows: 10,
+		},
+		default: '',
+		placeholder: '<d:searchrequest xmlns:d="DAV:"><d:basicsearch>...</d:basicsearch></d:searchrequest>',
+		description: 'Body of the SEARCH request. The results are parsed like a PROPFIND response.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['search'],
+				queryMode: ['raw'],
+			},
+		},
+		required: true,
+	},
+	{
+		displayName: 'Depth',
+		name: 'depth',
+		type: 'options',
+		default: 'infinity',
+		description: 'How deep below the scope folder to search',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['search'],
+				queryMode: ['builder'],
+			},
+		},
+		options: [
+			{
+				name: '1 (Direct Members)',
+				value: '1',
+			},
+			{
+				name: 'Infinity (All Descendants)',
+				value: 'infinity',
+			},
+		],
+	},
+	{
+		displayName: 'Conditions',
+		name: 'conditions',
+		type: 'collection',
+		placeholder: 'Add Condition',
+		default: {},
+		description: 'All conditions must match',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['search'],
+				queryMode: ['builder'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Content Type',
+				name: 'contentType',
+				type: 'string',
+				default: '',
+				placeholder: 'image/%',
+				description: 'MIME type to match. Use % as a wildcard, e.g. image/%.',
+			},
+			{
+				displayName: 'Max Size (Bytes)',
+				name: 'maxSize',
+				type: 'number',
+				default: 0,
+				typeOptions: {
+					minValue: 0,
+				},
+				description: 'Only return resources up to this size',
+			},
+			{
+				displayName: 'Min Size (Bytes)',
+				name: 'minSize',
+				type: 'number',
+				default: 0,
+				typeOptions: {
+					minValue: 0,
+				},
+				description: 'Only return resources of at least this size',
+			},
+			{
+				displayName: 'Modified After',
+				name: 'modifiedAfter',
+				type: 'dateTime',
+				default: '',
+				description: 'Only return resources modified after this date',
+			},
+			{
+				displayName: 'Modified Before',
+				name: 'modifiedBefore',
+				type: 'dateTime',
+				default: '',
+				description: 'Only return resources modified before this date',
+			},
+			{
+				displayName: 'Name Contains',
+				name: 'nameContains',
+				type: 'string',
+				default: '',
+				placeholder: 'invoice',
+				description: 'Text the name must contain',
+			},
+			{
+				displayName: 'Name Like',
+				name: 'nameLike',
+				type: 'string',
+				default: '',
+				placeholder: '%.pdf',
+				description: 'Pattern the name must match. % matches any sequence of characters, _ a single character.',
+			},
+			{
+				displayName: 'Type',
+				name: 'type',
+				type: 'options',
+				default: 'all',
+				options: [
+					{
+						name: 'Files and Folders',
+						value: 'all',
+					},
+					{
+						name: 'Files Only',
+						value: 'files',
+					},
+					{
+						name: 'Folders Only',
+						value: 'folders',
+					},
+				],
+			},
+		],
+	},
+	{
+		displayName: 'Sort',
+		name: 'orderBy',
+		type: 'fixedCollection',
+		placeholder: 'Add Sort Rule',
+		default: {},
+		typeOptions: {
+			multipleValues: true,
+		},
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['search'],
+				queryMode: ['builder'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Rule',
+				name: 'rule',
+				values: [
+					{
+						displayName: 'Property',
+						name: 'property',
+						type: 'options',
+						default: 'getlastmodified',
+						options: [
+							{ name: 'Content Type', value: 'getcontenttype' },
+							{ name: 'Last Modified', value: 'getlastmodified' },
+							{ name: 'Name', value: 'displayname' },
+							{ name: 'Size', value: 'getcontentlength' },
+						],
+					},
+					{
+						displayName: 'Direction',
+						name: 'direction',
+						type: 'options',
+						default: 'descending',
+						options: [
+							{ name: 'Ascending', value: 'ascending' },
+							{ name: 'Descending', value: 'descending' },
+						],
+					},
+				],
+			},
+		],
+	},
+	{
+		displayName: 'Return All',
+		name: 'returnAll',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to return all results or only up to a given limit',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['search'],
+				queryMode: ['builder'],
+			},
+		},
+	},
+	{
+		displayName: 'Limit',
+		name: 'limit',
+		type: 'number',
+		default: 50,
+		typeOptions: {
+			minValue: 1,
+		},
+		description: 'Max number of results to return',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['search'],
+				queryMode: ['builder'],
+				returnAll: [false],
+			},
+		},
+	},
+	{
+		displayName: 'Options',
+		name: 'searchOptions',
+		type: 'collection',
+		placeholder: 'Add Option',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['search'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Search Endpoint',
+				name: 'searchEndpoint',
+				type: 'string',
+				default: '',
+				placeholder: '/remote.php/dav',
+				description: 'Server path the SEARCH request is sent to. Defaults to /remote.php/dav for a Nextcloud files URL, otherwise to the Base URL. The scope is sent relative to this path.',
+			},
+		],
+	},
+];
+
+const proppatchOperationFields: INodeProperties[] = [
+	{
+		displayName: 'Path',
+		name: 'path',
+		type: 'string',
+		default: '',
+		placeholder: '/path/to/resource',
+		description: 'Path to the resource to update. Start with "/". Spaces and special characters are auto-encoded.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['proppatch'],
+			},
+		},
+		required: true,
+	},
+	{
+		displayName: 'Properties to Set',
+		name: 'setProperties',
+		type: 'fixedCollection',
+		placeholder: 'Add Property',
+		default: {},
+		typeOptions: {
+			multipleValues: true,
+		},
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['proppatch'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Property',
+				name: 'property',
+				values: [
+					{
+						displayName: 'Namespace',
+						name: 'namespace',
+						type: 'string',
+						default: '',
+						placeholder: 'http://example.com/ns',
+						description: 'XML namespace URI of the property, e.g. http://owncloud.org/ns or your own namespace',
+					},
+					{
+						displayName: 'Name',
+						name: 'name',
+						type: 'string',
+						default: '',
+						placeholder: 'customer-ID',
+						description: 'Local name of the property element, without prefix',
+					},
+					{
+						displayName: 'Value',
+						name: 'value',
+						type: 'string',
+						default: '',
+						description: 'Text value to store. Special characters are XML-escaped.',
+					},
+				],
+			},
+		],
+	},
+	{
+		displayName: 'Properties to Remove',
+		name: 'removeProperties',
+		type: 'fixedCollection',
+		placeholder: 'Add Property',
+		default: {},
+		typeOptions: {
+			multipleValues: true,
+		},
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['proppatch'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Property',
+				name: 'property',
+				values: [
+					{
+						displayName: 'Namespace',
+						name: 'namespace',
+						type: 'string',
+						default: '',
+						placeholder: 'http://example.com/ns',
+						description: 'XML namespace URI of the property',
+					},
+					{
+						displayName: 'Name',
+						name: 'name',
+						type: 'string',
+						default: '',
+						placeholder: 'processing-state',
+						description: 'Local name of the property element, without prefix',
+					},
+				],
+			},
+		],
+	},
+];
+
+const aclOperationFields: INodeProperties[] = [
+	{
+		displayName: 'Path',
+		name: 'path',
+		type: 'string',
+		default: '',
+		placeholder: '/projects/apollo',
+		description: 'Path of the file or folder. Start with "/". Spaces and special characters are auto-encoded.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['getAcl', 'setAcl'],
+			},
+		},
+		required: true,
+	},
+	{
+		displayName: 'Mode',
+		name: 'aclMode',
+		type: 'options',
+		options: [
+			{
+				name: 'Merge',
+				value: 'merge',
+				description: 'Keep the existing entries of other principals and replace those of the given principals',
+			},
+			{
+				name: 'Replace',
+				value: 'replace',
+				description: 'Replace all entries that are not protected or inherited with the given ones',
+			},
+		],
+		default: 'merge',
+		description: 'The ACL method always replaces the whole list, so merging reads the current entries first',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['setAcl'],
+			},
+		},
+	},
+	{
+		displayName: 'Access Control Entries',
+		name: 'aces',
+		type: 'fixedCollection',
+		placeholder: 'Add Entry',
+		default: {},
+		typeOptions: {
+			multipleValues: true,
+		},
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['setAcl'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Entry',
+				name: 'ace',
+				values: [
+					{
+						displayName: 'Principal Type',
+						name: 'principalType',
+						type: 'options',
+						options: [
+							{
+								name: 'All',
+								value: 'all',
+								description: 'Every user, authenticated or not',
+							},
+							{
+								name: 'Authenticated',
+								value: 'authenticated',
+								description: 'Every authenticated user',
+							},
+							{
+								name: 'Owner',
+								value: 'owner',
+								description: 'The owner of the resource',
+							},
+							{
+								name: 'Principal URL',
+								value: 'href',
+								description: 'A user or group principal, e.g. /principals/users/alice',
+							},
+							{
+								name: 'Self',
+								value: 'self',
+								description: 'The principal the resource represents (for principal resources)',
+							},
+							{
+								name: 'Unauthenticated',
+								value: 'unauthenticated',
+								description: 'Anonymous users',
+							},
+						],
+						default: 'href',
+					},
+					{
+						displayName: 'Principal URL',
+						name: 'principal',
+						type: 'string',
+						default: '',
+						placeholder: '/principals/users/alice',
+						description: 'Href of the user or group principal',
+						displayOptions: {
+							show: {
+								principalType: ['href'],
+							},
+						},
+					},
+					{
+						displayName: 'Action',
+						name: 'action',
+						type: 'options',
+						options: [
+							{
+								name: 'Grant',
+								value: 'grant',
+							},
+							{
+								name: 'Deny',
+								value: 'deny',
+							},
+						],
+						default: 'grant',
+					},
+					{
+						displayName: 'Privileges',
+						name: 'privileges',
+						type: 'multiOptions',
+						options: [
+							{
+								name: 'All',
+								value: 'all',
+							},
+							{
+								name: 'Bind',
+								value: 'bind',
+								description: 'Create members in a collection',
+							},
+							{
+								name: 'Read',
+								value: 'read',
+							},
+							{
+								name: 'Read ACL',
+								value: 'read-acl',
+							},
+							{
+								name: 'Read Current User Privilege Set',
+								value: 'read-current-user-privilege-set',
+							},
+							{
+								name: 'Unbind',
+								value: 'unbind',
+								description: 'Remove members from a collection',
+							},
+							{
+								name: 'Unlock',
+								value: 'unlock',
+							},
+							{
+								name: 'Write',
+								value: 'write',
+							},
+							{
+								name: 'Write ACL',
+								value: 'write-acl',
+							},
+							{
+								name: 'Write Content',
+								value: 'write-content',
+							},
+							{
+								name: 'Write Properties',
+								value: 'write-properties',
+							},
+						],
+						default: ['read'],
+					},
+				],
+			},
+		],
+	},
+];
+
+const mkcolOperationFields: INodeProperties[] = [
+	{
+		displayName: 'Path',
+		name: 'path',
+		type: 'string',
+		default: '',
+		placeholder: '/path/to/new/directory',
+		description: 'Path of the directory to create on the WebDAV server. Start with "/". Spaces and special characters are auto-encoded.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['mkcol'],
+			},
+		},
+		required: true,
+	},
+	{
+		displayName: 'Create Parents',
+		name: 'createParents',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to create missing parent directories as well, like "mkdir -p". An existing directory then counts as success.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['mkcol'],
+			},
+		},
+	},
+];
+
+const deleteOperationFields: INodeProperties[] = [
+	{
+		displayName: 'Path',
+		name: 'path',
+		type: 'string',
+		default: '',
+		placeholder: '/path/to/resource',
+		description: 'Path to the file or directory to delete. Start with "/". Spaces and special characters are auto-encoded.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['delete'],
+			},
+		},
+		required: true,
+	},
+];
+
+const moveOperationFields: INodeProperties[] = [
+	{
+		displayName: 'Source Path',
+		name: 'path',
+		type: 'string',
+		default: '',
+		placeholder: '/path/to/source',
+		description: 'Path to the resource to move. Start with "/". Spaces and special characters are auto-encoded.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['move'],
+			},
+		},
+		required: true,
+	},
+	{
+		displayName: 'Destination Path',
+		name: 'destination',
+		type: 'string',
+		default: '',
+		placeholder: '/path/to/destination',
+		description: 'New path for the resource. Start with "/". Spaces and special characters are auto-encoded.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['move'],
+			},
+		},
+		required: true,
+	},
+	{
+		displayName: 'Overwrite',
+		name: 'overwrite',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to overwrite the destination if it exists',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['move'],
+			},
+		},
+	},
+];
+
+const copyOperationFields: INodeProperties[] = [
+	{
+		displayName: 'Source Path',
+		name: 'path',
+		type: 'string',
+		default: '',
+		placeholder: '/path/to/source',
+		description: 'Path to the resource to copy. Start with "/". Spaces and special characters are auto-encoded.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['copy'],
+			},
+		},
+		required: true,
+	},
+	{
+		displayName: 'Destination Path',
+		name: 'destination',
+		type: 'string',
+		default: '',
+		placeholder: '/path/to/destination',
+		description: 'Path where to copy the resource. Start with "/". Spaces and special characters are auto-encoded.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['copy'],
+			},
+		},
+		required: true,
+	},
+	{
+		displayName: 'Overwrite',
+		name: 'overwrite',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to overwrite the destination if it exists',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['copy'],
+			},
+		},
+	},
+];
+
+const syncOperationFields: INodeProperties[] = [
+	{
+		displayName: 'Source',
+		name: 'syncSource',
+		type: 'options',
+		default: 'binary',
+		description: 'What to compare the remote folder with',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['sync'],
+			},
+		},
+		options: [
+			{
+				name: 'Input Binary Items',
+				value: 'binary',
+				description: 'All incoming items are treated as one set of files',
+			},
+			{
+				name: 'Remote Folder',
+				value: 'remote',
+				description: 'Another folder on the same server',
+			},
+		],
+	},
+	{
+		displayName: 'Source Path',
+		name: 'sourcePath',
+		type: 'string',
+		default: '',
+		placeholder: '/path/to/source',
+		description: 'Remote folder to sync from. Start with "/". Spaces and special characters are auto-encoded.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['sync'],
+				syncSource: ['remote'],
+			},
+		},
+		required: true,
+	},
+	{
+		displayName: 'Target Path',
+		name: 'path',
+		type: 'string',
+		default: '',
+		placeholder: '/path/to/target',
+		description: 'Remote folder to sync into. Start with "/". Spaces and special characters are auto-encoded.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['sync'],
+			},
+		},
+		required: true,
+	},
+	{
+		displayName: 'Mode',
+		name: 'syncMode',
+		type: 'options',
+		default: 'mirror',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['sync'],
+			},
+		},
+		options: [
+			{
+				name: 'Mirror (One-Way)',
+				value: 'mirror',
+				description: 'Make the target match the source. Target changes are overwritten.',
+			},
+			{
+				name: 'Two-Way',
+				value: 'twoWay',
+				description: 'Propagate changes in both directions and report files changed on both sides as conflicts',
+			},
+		],
+	},
+	{
+		displayName: 'Dry Run',
+		name: 'dryRun',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to only output the planned actions without changing anything',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['sync'],
+			},
+		},
+	},
+	{
+		displayName: 'Options',
+		name: 'syncOptions',
+		type: 'collection',
+		placeholder: 'Add Option',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['sync'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Binary Property',
+				name: 'binaryPropertyName',
+				type: 'string',
+				default: 'data',
+				description: 'Name of the binary property holding each file. Downloaded files are returned in the same property.',
+				displayOptions: {
+					show: {
+						'/syncSource': ['binary'],
+					},
+				},
+			},
+			{
+				displayName: 'Conflict Resolution',
+				name: 'conflictResolution',
+				type: 'options',
+				default: 'report',
+				description: 'What to do with files changed on both sides',
+				displayOptions: {
+					show: {
+						'/syncMode': ['twoWay'],
+					},
+				},
+				options: [
+					{
+						name: 'Report Only',
+						value: 'report',
+						description: 'Output a conflict action and leave both files untouched',
+					},
+					{
+						name: 'Source Wins',
+						value: 'sourceWins',
+					},
+					{
+						name: 'Target Wins',
+						value: 'targetWins',
+					},
+				],
+			},
+			{
+				displayName: 'Delete Extraneous Files',
+				name: 'deleteExtraneous',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to delete files in the target that do not exist in the source',
+				displayOptions: {
+					show: {
+						'/syncMode': ['mirror'],
+					},
+				},
+			},
+			{
+				displayName: 'Relative Path Field',
+				name: 'relativePathField',
+				type: 'string',
+				default: '',
+				placeholder: 'relativePath',
+				description: 'Input field holding the path of each file below the target folder, e.g. "2026/report.pdf". Defaults to the binary file name.',
+				displayOptions: {
+					show: {
+						'/syncSource': ['binary'],
+					},
+				},
+			},
+			{
+				displayName: 'Use Saved State',
+				name: 'useSavedState',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to remember the result of each sync in the workflow static data. It is needed to tell deletions from new files and to detect which side changed. Only active workflows persist it.',
+			},
+		],
+	},
+];
+
+const archiveOperationFields: INodeProperties[] = [
+	{
+		displayName: 'Path',
+		name: 'path',
+		type: 'string',
+		default: '/',
+		placeholder: '/path/to/folder',
+		description: 'Folder to compress. Use "/" for root. Spaces and special characters are auto-encoded.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['compress'],
+			},
+		},
+		required: true,
+	},
+	{
+		displayName: 'Path',
+		name: 'path',
+		type: 'string',
+		default: '/',
+		placeholder: '/path/to/folder',
+		description: 'Folder to extract the archive into. Missing folders are created.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['extract'],
+			},
+		},
+		required: true,
+	},
+	{
+		displayName: 'Archive Format',
+		name: 'archiveFormat',
+		type: 'options',
+		default: 'zip',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['compress'],
+			},
+		},
+		options: [
+			{
+				name: 'Tar.gz',
+				value: 'tarGz',
+			},
+			{
+				name: 'Zip',
+				value: 'zip',
+			},
+		],
+	},
+	{
+		displayName: 'Binary Property',
+		name: 'binaryPropertyName',
+		type: 'string',
+		default: 'data',
+		description: 'Name of the binary property to write the archive to',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['compress'],
+			},
+		},
+	},
+	{
+		displayName: 'Binary Property',
+		name: 'binaryPropertyName',
+		type: 'string',
+		default: 'data',
+		description: 'Name of the binary property that holds the zip archive',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['extract'],
+			},
+		},
+	},
+	{
+		displayName: 'Archive Options',
+		name: 'archiveOptions',
+		type: 'collection',
+		placeholder: 'Add Option',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['compress', 'extract'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Exclude',
+				name: 'exclude',
+				type: 'string',
+				default: '',
+				placeholder: '*.tmp, **/.git/**',
+				description: 'Comma-separated glob patterns of files to leave out. Patterns containing "/" are matched against the path below the folder, others against the file name.',
+			},
+			{
+				displayName: 'File Name',
+				name: 'fileName',
+				type: 'string',
+				default: '',
+				placeholder: 'backup.zip',
+				description: 'File name of the archive. Defaults to the folder name with the format\'s extension.',
+				displayOptions: {
+					show: {
+						'/operation': ['compress'],
+					},
+				},
+			},
+			{
+				displayName: 'Include',
+				name: 'include',
+				type: 'string',
+				default: '',
+				placeholder: '*.pdf, reports/**',
+				description: 'Comma-separated glob patterns of files to include. Empty includes all files.',
+			},
+			{
+				displayName: 'Max Total Size (MB)',
+				name: 'maxSize',
+				type: 'number',
+				default: 100,
+				typeOptions: {
+					minValue: 1,
+				},
+				description: 'Fail instead of reading more than this many megabytes of (uncompressed) file content into memory',
+			},
+			{
+				displayName: 'Overwrite',
+				name: 'overwrite',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to replace existing files. When off, existing files are skipped and reported.',
+				displayOptions: {
+					show: {
+						'/operation': ['extract'],
+					},
+				},
+			},
+		],
+	},
+];
+
+const transferOperationFields: INodeProperties[] = [
+	{
+		displayName: 'Source Path',
+		name: 'path',
+		type: 'string',
+		default: '/',
+		placeholder: '/path/to/folder',
+		description: 'File or folder on the server of the DAV API credential. Folders are transferred with all subfolders.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['transfer'],
+			},
+		},
+		required: true,
+	},
+	{
+		displayName: 'Target Path',
+		name: 'targetPath',
+		type: 'string',
+		default: '/',
+		placeholder: '/path/to/folder',
+		description: 'Path on the server of the transfer target credential. For a folder this is the folder that receives its contents, for a file the new file path.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['transfer'],
+			},
+		},
+		required: true,
+	},
+	{
+		displayName: 'Mode',
+		name: 'transferMode',
+		type: 'options',
+		default: 'copy',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['transfer'],
+			},
+		},
+		options: [
+			{
+				name: 'Copy',
+				value: 'copy',
+				description: 'Keep the source files',
+			},
+			{
+				name: 'Move',
+				value: 'move',
+				description: 'Delete each source file once it arrived on the target',
+			},
+		],
+	},
+	{
+		displayName: 'Transfer Options',
+		name: 'transferOptions',
+		type: 'collection',
+		placeholder: 'Add Option',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['transfer'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Overwrite',
+				name: 'overwrite',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to replace files that already exist on the target. When off, they are skipped.',
+			},
+			{
+				displayName: 'Preserve Modification Time',
+				name: 'preserveModified',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to send the source modification time in the X-OC-Mtime header (Nextcloud/ownCloud targets)',
+			},
+		],
+	},
+];
+
+const lockOperationFields: INodeProperties[] = [
+	{
+		displayName: 'Path',
+		name: 'path',
+		type: 'string',
+		default: '',
+		placeholder: '/path/to/resource',
+		description: 'Path to the file or directory to lock. Start with "/". Spaces and special characters are auto-encoded.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['lock'],
+			},
+		},
+		required: true,
+	},
+	{
+		displayName: 'Lock Scope',
+		name: 'lockScope',
+		type: 'options',
+		default: 'exclusive',
+		description: 'Whether other clients may hold a lock on the resource at the same time',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['lock'],
+			},
+		},
+		options: [
+			{
+				name: 'Exclusive',
+				value: 'exclusive',
+				description: 'No other client can lock the resource',
+			},
+			{
+				name: 'Shared',
+				value: 'shared',
+				description: 'Other clients can take shared locks on the resource',
+			},
+		],
+	},
+	{
+		displayName: 'Timeout (Seconds)',
+		name: 'lockTimeout',
+		type: 'number',
+		default: 3600,
+		typeOptions: {
+			minValue: 0,
+		},
+		description: 'How long the server should keep the lock. Use 0 to request an infinite lock. Servers may grant a shorter timeout.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['lock'],
+			},
+		},
+	},
+	{
+		displayName: 'Owner',
+		name: 'lockOwner',
+		type: 'string',
+		default: '',
+		placeholder: 'n8n workflow',
+		description: 'Optional owner information stored with the lock, e.g. a name or contact URL',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['lock'],
+			},
+		},
+	},
+	{
+		displayName: 'Depth',
+		name: 'lockDepth',
+		type: 'options',
+		default: 'infinity',
+		description: 'Whether a lock on a directory also covers everything inside it',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['lock'],
+			},
+		},
+		options: [
+			{
+				name: '0 (Resource Only)',
+				value: '0',
+			},
+			{
+				name: 'Infinity (All Descendants)',
+				value: 'infinity',
+			},
+		],
+	},
+];
+
+const unlockOperationFields: INodeProperties[] = [
+	{
+		displayName: 'Path',
+		name: 'path',
+		type: 'string',
+		default: '',
+		placeholder: '/path/to/resource',
+		description: 'Path to the locked file or directory. Start with "/". Spaces and special characters are auto-encoded.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['unlock'],
+			},
+		},
+		required: true,
+	},
+	{
+		displayName: 'Lock Token',
+		name: 'lockId',
+		type: 'string',
+		default: '',
+		placeholder: 'opaquelocktoken:e71d4fae-5dec-22d6-fea5-00a0c91e6be4',
+		description: 'Token returned by the Lock Resource operation. Supports expressions like {{$JSON.lockToken}}.',
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['unlock'],
+			},
+		},
+		required: true,
+	},
+];
+
+const optionsFields: INodeProperties[] = [
+	{
+		displayName: 'Options',
+		name: 'options',
+		type: 'collection',
+		placeholder: 'Add Option',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['file'],
+				operation: ['get', 'put', 'delete', 'move', 'copy'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Checksum Algorithm',
+				name: 'checksumAlgorithm',
+				type: 'options',
+				default: 'sha256',
+				description: 'Hash computed over the transferred content and returned in "checksum"',
+				displayOptions: {
+					show: {
+						'/operation': ['get', 'put'],
+					},
+				},
+				options: [
+					{
+						name: 'MD5',
+						value: 'md5',
+					},
+					{
+						name: 'SHA-1',
+						value: 'sha1',
+					},
+					{
+						name: 'SHA-256',
+						value: 'sha256',
+					},
+				],
+			},
+			{
+				displayName: 'Chunk Retries',
+				name: 'chunkRetries',
+				type: 'number',
+				default: 3,
+				typeOptions: {
+					minValue: 0,
+				},
+				description: 'How often a chunk that failed with a dropped connection, timeout or HTTP 429, 502, 503 or 504 is retried before the upload is aborted. Replaces the Retry option for chunk requests.',
+				displayOptions: {
+					show: {
+						'/operation': ['put'],
+						uploadMode: ['nextcloud', 'contentRange'],
+					},
+				},
+			},
+			{
+				displayName: 'Chunk Size (MB)',
+				name: 'chunkSize',
+				type: 'number',
+				default: 10,
+				typeOptions: {
+					minValue: 1,
+				},
+				description: 'Size of each uploaded chunk in megabytes. Nextcloud requires at least 5 MB for all but the last chunk on some storage backends.',
+				displayOptions: {
+					show: {
+						'/operation': ['put'],
+						uploadMode: ['nextcloud', 'contentRange'],
+					},
+				},
+			},
+			{
+				displayName: 'Create Parent Folders',
+				name: 'createParents',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to create missing folders of the upload path first, e.g. for date-based folders like /reports/2026/10/19',
+				displayOptions: {
+					show: {
+						'/operation': ['put'],
+					},
+				},
+			},
+			{
+				displayName: 'Expected Checksum',
+				name: 'expectedChecksum',
+				type: 'string',
+				default: '',
+				placeholder: 'SHA256:9f86d081884c7d65...',
+				description: 'Checksum the downloaded file must have, as hex digest optionally prefixed with the algorithm (MD5, SHA1, SHA256)',
+				displayOptions: {
+					show: {
+						'/operation': ['get'],
+					},
+				},
+			},
+			{
+				displayName: 'If-Match',
+				name: 'ifMatch',
+				type: 'string',
+				default: '',
+				placeholder: '"5f2b8e3a9c1d"',
+				description: 'Only perform the request if the resource still has this ETag (comma-separated for several), e.g. the ETag from an earlier download. Otherwise the item reports preconditionFailed. Use * to require that the resource exists.',
+				displayOptions: {
+					show: {
+						'/operation': ['get', 'put', 'delete', 'move', 'copy'],
+					},
+				},
+			},
+			{
+				displayName: 'If-Modified-Since',
+				name: 'ifModifiedSince',
+				type: 'dateTime',
+				default: '',
+				description: 'Only download the file if it changed after this date. Otherwise the item reports notModified and carries no binary data.',
+				displayOptions: {
+					show: {
+						'/operation': ['get'],
+					},
+				},
+			},
+			{
+				displayName: 'If-None-Match',
+				name: 'ifNoneMatch',
+				type: 'string',
+				default: '',
+				placeholder: '"5f2b8e3a9c1d"',
+				description: 'Only perform the request if the resource does not have this ETag. Downloads report notModified for a match; use * on upload to never overwrite an existing file.',
+				displayOptions: {
+					show: {
+						'/operation': ['get', 'put', 'delete', 'move', 'copy'],
+					},
+				},
+			},
+			{
+				displayName: 'If-Unmodified-Since',
+				name: 'ifUnmodifiedSince',
+				type: 'dateTime',
+				default: '',
+				description: 'Only perform the request if the resource has not changed since this date. Otherwise the item reports preconditionFailed.',
+				displayOptions: {
+					show: {
+						'/operation': ['get', 'put', 'delete', 'move', 'copy'],
+					},
+				},
+			},
+			{
+				displayName: 'Lock Token',
+				name: 'lockId',
+				type: 'string',
+				default: '',
+				placeholder: 'opaquelocktoken:e71d4fae-5dec-22d6-fea5-00a0c91e6be4',
+				description: 'Token of a lock you hold, sent in the If header. For Copy Resource it must be the lock on the destination; otherwise the lock on the target path.',
+				displayOptions: {
+					show: {
+						'/operation': ['put', 'delete', 'move', 'copy'],
+					},
+				},
+			},
+			{
+				displayName: 'On Checksum Mismatch',
+				name: 'checksumMismatch',
+				type: 'options',
+				default: 'fail',
+				description: 'What to do when the downloaded file does not match the expected or server checksum',
+				displayOptions: {
+					show: {
+						'/operation': ['get'],
+					},
+				},
+				options: [
+					{
+						name: 'Fail',
+						value: 'fail',
+						description: 'Fail the item',
+					},
+					{
+						name: 'Flag',
+						value: 'flag',
+						description: 'Return the item with "checksumVerified" set to false',
+					},
+				],
+			},
+			{
+				displayName: 'Range',
+				name: 'range',
+				type: 'options',
+				default: 'none',
+				description: 'Download only part of the file using an HTTP Range request. Servers answer with 206 Partial Content.',
+				displayOptions: {
+					show: {
+						'/operation': ['get'],
+					},
+				},
+				options: [
+					{
+						name: 'Byte Range',
+						value: 'startEnd',
+						description: 'Bytes from a start offset to an end offset (inclusive)',
+					},
+					{
+						name: 'Last Bytes',
+						value: 'suffix',
+						description: 'The last N bytes of the file, e.g. to tail a log file',
+					},
+					{
+						name: 'Whole File',
+						value: 'none',
+					},
+				],
+			},
+			{
+				displayName: 'Range End (Byte)',
+				name: 'rangeEnd',
+				type: 'number',
+				default: -1,
+				description: 'Zero-based offset of the last byte to download (inclusive). Use -1 to read to the end of the file.',
+				displayOptions: {
+					show: {
+						'/operation': ['get'],
+						range: ['startEnd'],
+					},
+				},
+			},
+			{
+				displayName: 'Range Length (Bytes)',
+				name: 'rangeLength',
+				type: 'number',
+				default: 1024,
+				typeOptions: {
+					minValue: 1,
+				},
+				description: 'Number of bytes to download from the end of the file',
+				displayOptions: {
+					show: {
+						'/operation': ['get'],
+						range: ['suffix'],
+					},
+				},
+			},
+			{
+				displayName: 'Range Start (Byte)',
+				name: 'rangeStart',
+				type: 'number',
+				default: 0,
+				typeOptions: {
+					minValue: 0,
+				},
+				description: 'Zero-based offset of the first byte to download',
+				displayOptions: {
+					show: {
+						'/operation': ['get'],
+						range: ['startEnd'],
+					},
+				},
+			},
+			{
+				displayName: 'Resume Upload',
+				name: 'resumeUpload',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to skip chunks the server already received from an earlier, failed attempt. Nextcloud uses the upload ID to find them; Content-Range continues after the bytes already stored at the path once they match the file, and starts over otherwise.',
+				displayOptions: {
+					show: {
+						'/operation': ['put'],
+						uploadMode: ['nextcloud', 'contentRange'],
+					},
+				},
+			},
+			{
+				displayName: 'Return As',
+				name: 'downloadAs',
+				type: 'options',
+				default: 'binary',
+				description: 'How to return the downloaded content',
+				displayOptions: {
+					show: {
+						'/operation': ['get'],
+					},
+				},
+				options: [
+					{
+						name: 'Binary',
+						value: 'binary',
+						description: 'Store the file as binary data',
+					},
+					{
+						name: 'JSON',
+						value: 'json',
+						description: 'Parse the content as JSON into the "data" field',
+					},
+					{
+						name: 'Text',
+						value: 'text',
+						description: 'Decode the content as text into the "data" field, using the charset sent by the server',
+					},
+				],
+			},
+			{
+				displayName: 'Send Checksum',
+				name: 'sendChecksum',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to send the checksum in an OC-Checksum header (and Content-MD5 for MD5) so servers like Nextcloud and ownCloud can store and verify it',
+				displayOptions: {
+					show: {
+						'/operation': ['put'],
+					},
+				},
+			},
+			{
+				displayName: 'Upload ID',
+				name: 'uploadId',
+				type: 'string',
+				default: '',
+				description: 'Name of the Nextcloud upload folder. Leave empty to derive it from the target path and file size, so re-running the same upload finds its chunks again.',
+				displayOptions: {
+					show: {
+						'/operation': ['put'],
+						uploadMode: ['nextcloud'],
+					},
+				},
+			},
+			{
+				displayName: 'Upload Mode',
+				name: 'uploadMode',
+				type: 'options',
+				default: 'single',
+				description: 'How the file is sent to the server. Use a chunked mode for large files or when proxies limit request size.',
+				displayOptions: {
+					show: {
+						'/operation': ['put'],
+					},
+				},
+				options: [
+					{
+						name: 'Chunked (Content-Range)',
+						value: 'contentRange',
+						description: 'Partial PUT requests with a Content-Range header, for servers that support them (e.g. Apache mod_dav)',
+					},
+					{
+						name: 'Chunked (Nextcloud)',
+						value: 'nextcloud',
+						description: 'Nextcloud/ownCloud chunked upload v2 via the uploads folder',
+					},
+					{
+						name: 'Single Request',
+						value: 'single',
+						description: 'Send the whole file in one PUT request',
+					},
+				],
+			},
+			{
+				displayName: 'Verify Server Checksum',
+				name: 'verifyChecksum',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to compare the download with the checksum stored on the server (OC-Checksum header or oc:checksums property)',
+				displayOptions: {
+					show: {
+						'/operation': ['get'],
+					},
+				},
+			},
+		],
+	},
+];
+
+const trashFields: INodeProperties[] = [
 	{
-		displayName: 'Destination Path',
-		name: 'destination',
+		displayName: 'User ID',
+		name: 'userId',
 		type: 'string',
 		default: '',
-		placeholder: '/path/to/destination',
-		description: 'New path for the resource. Start with "/". Spaces and special characters are auto-encoded.',
+		placeholder: 'alice',
+		description:
+			'User whose trash bin to use. Leave empty to take it from the Base URL (e.g. .../remote.php/dav/files/alice) or the credential username.',
 		displayOptions: {
 			show: {
-				resource: ['file'],
-				operation: ['move'],
+				resource: ['trash'],
+			},
+		},
+	},
+	{
+		displayName: 'Trash Item',
+		name: 'trashItem',
+		type: 'string',
+		default: '',
+		placeholder: 'report.pdf.d1760000000',
+		description: 'Name of the item inside the trash bin, as returned by List Trash in "trashItem"',
+		displayOptions: {
+			show: {
+				resource: ['trash'],
+				operation: ['deleteTrash', 'restoreTrash'],
 			},
 		},
 		required: true,
 	},
 	{
-		displayName: 'Overwrite',
-		name: 'overwrite',
+		displayName: 'Return All',
+		name: 'returnAll',
 		type: 'boolean',
 		default: false,
-		description: 'Whether to overwrite the destination if it exists',
+		description: 'Whether to return all results or only up to a given limit',
+		displayOptions: {
+			show: {
+				resource: ['trash'],
+				operation: ['listTrash'],
+			},
+		},
+	},
+	{
+		displayName: 'Limit',
+		name: 'limit',
+		type: 'number',
+		default: 50,
+		typeOptions: {
+			minValue: 1,
+		},
+		description: 'Max number of results to return',
+		displayOptions: {
+			show: {
+				resource: ['trash'],
+				operation: ['listTrash'],
+				returnAll: [false],
+			},
+		},
+	},
+];
+
+const batchingFields: INodeProperties[] = [
+	{
+		displayName: 'Batching',
+		name: 'batching',
+		type: 'collection',
+		placeholder: 'Add Option',
+		default: {},
+		description: 'Process several input items at the same time. Output order stays the same as the input order.',
 		displayOptions: {
 			show: {
 				resource: ['file'],
-				operation: ['move'],
+				operation: ['get', 'put', 'delete', 'copy', 'move', 'mkcol'],
 			},
 		},
+		options: [
+			{
+				displayName: 'Batch Interval (Ms)',
+				name: 'batchInterval',
+				type: 'number',
+				default: 0,
+				typeOptions: {
+					minValue: 0,
+				},
+				description: 'Time to wait between batches in milliseconds, e.g. to respect server rate limits',
+			},
+			{
+				displayName: 'Max Parallel Requests',
+				name: 'maxParallel',
+				type: 'number',
+				default: 5,
+				typeOptions: {
+					minValue: 1,
+				},
+				description: 'How many items are processed at the same time. 1 processes items one after another.',
+			},
+		],
 	},
 ];
 
-const copyOperationFields: INodeProperties[] = [
+const versionFields: INodeProperties[] = [
 	{
-		displayName: 'Source Path',
+		displayName: 'File Path',
 		name: 'path',
 		type: 'string',
 		default: '',
-		placeholder: '/path/to/source',
-		description: 'Path to the resource to copy. Start with "/". Spaces and special characters are auto-encoded.',
+		placeholder: '/Documents/contract.docx',
+		description: 'Path of the file whose versions to use',
 		displayOptions: {
 			show: {
-				resource: ['file'],
-				operation: ['copy'],
+				resource: ['version'],
 			},
 		},
 		required: true,
 	},
 	{
-		displayName: 'Destination Path',
-		name: 'destination',
+		displayName: 'Version API',
+		name: 'versionApi',
+		type: 'options',
+		options: [
+			{
+				name: 'Nextcloud Versions',
+				value: 'nextcloud',
+				description: 'Versions collection of the file, addressed by its Nextcloud file ID',
+			},
+			{
+				name: 'WebDAV Versioning (RFC 3253)',
+				value: 'deltaV',
+				description: 'Version-tree REPORT of a version-controlled resource',
+			},
+		],
+		default: 'nextcloud',
+		displayOptions: {
+			show: {
+				resource: ['version'],
+			},
+		},
+	},
+	{
+		displayName: 'User ID',
+		name: 'userId',
 		type: 'string',
 		default: '',
-		placeholder: '/path/to/destination',
-		description: 'Path where to copy the resource. Start with "/". Spaces and special characters are auto-encoded.',
+		placeholder: 'alice',
+		description:
+			'User who owns the file. Leave empty to take it from the Base URL (e.g. .../remote.php/dav/files/alice) or the credential username.',
 		displayOptions: {
 			show: {
-				resource: ['file'],
-				operation: ['copy'],
+				resource: ['version'],
+				versionApi: ['nextcloud'],
+			},
+		},
+	},
+	{
+		displayName: 'Version ID',
+		name: 'versionId',
+		type: 'string',
+		default: '',
+		placeholder: '1760000000',
+		description:
+			'Version as returned by List Versions in "versionId": a timestamp for Nextcloud, the version href for WebDAV Versioning',
+		displayOptions: {
+			show: {
+				resource: ['version'],
+				operation: ['downloadVersion', 'restoreVersion'],
 			},
 		},
 		required: true,
 	},
+];
+
+const shareFields: INodeProperties[] = [
 	{
-		displayName: 'Overwrite',
-		name: 'overwrite',
-		type: 'boolean',
-		default: false,
-		description: 'Whether to overwrite the destination if it exists',
+		displayName: 'Path',
+		name: 'path',
+		type: 'string',
+		default: '',
+		placeholder: '/Documents/offer.pdf',
+		description: 'Path of the file or folder to share, relative to the Base URL',
 		displayOptions: {
 			show: {
-				resource: ['file'],
-				operation: ['copy'],
+				resource: ['share'],
+				operation: ['createShare', 'listShares'],
+			},
+		},
+		required: true,
+	},
+	{
+		displayName: 'Share Type',
+		name: 'shareType',
+		type: 'options',
+		options: [
+			{
+				name: 'Email',
+				value: 4,
+			},
+			{
+				name: 'Federated Cloud',
+				value: 6,
+			},
+			{
+				name: 'Group',
+				value: 1,
+			},
+			{
+				name: 'Public Link',
+				value: 3,
+			},
+			{
+				name: 'User',
+				value: 0,
+			},
+		],
+		default: 3,
+		displayOptions: {
+			show: {
+				resource: ['share'],
+				operation: ['createShare'],
+			},
+		},
+	},
+	{
+		displayName: 'Share With',
+		name: 'shareWith',
+		type: 'string',
+		default: '',
+		placeholder: 'bob',
+		description: 'User ID, group ID, email address or federated cloud ID of the recipient',
+		displayOptions: {
+			show: {
+				resource: ['share'],
+				operation: ['createShare'],
+				shareType: [0, 1, 4, 6],
 			},
 		},
+		required: true,
+	},
+	{
+		displayName: 'Share ID',
+		name: 'shareId',
+		type: 'string',
+		default: '',
+		description: 'ID of the share, as returned by Create Share or List Shares',
+		displayOptions: {
+			show: {
+				resource: ['share'],
+				operation: ['updateShare', 'deleteShare'],
+			},
+		},
+		required: true,
+	},
+	{
+		displayName: 'Options',
+		name: 'shareOptions',
+		type: 'collection',
+		placeholder: 'Add Option',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['share'],
+				operation: ['createShare'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Expiration Date',
+				name: 'expireDate',
+				type: 'dateTime',
+				default: '',
+				description: 'Day after which the share stops working',
+			},
+			{
+				displayName: 'Label',
+				name: 'label',
+				type: 'string',
+				default: '',
+				description: 'Label of a public link, shown in the sharing sidebar',
+			},
+			{
+				displayName: 'Note',
+				name: 'note',
+				type: 'string',
+				default: '',
+				description: 'Note shown to the recipient',
+			},
+			{
+				displayName: 'Password',
+				name: 'password',
+				type: 'string',
+				typeOptions: {
+					password: true,
+				},
+				default: '',
+				description: 'Password that protects a public link or email share',
+			},
+			{
+				displayName: 'Permissions',
+				name: 'permissions',
+				type: 'multiOptions',
+				options: [
+					{
+						name: 'Create',
+						value: 4,
+					},
+					{
+						name: 'Delete',
+						value: 8,
+					},
+					{
+						name: 'Read',
+						value: 1,
+					},
+					{
+						name: 'Share',
+						value: 16,
+					},
+					{
+						name: 'Update',
+						value: 2,
+					},
+				],
+				default: [],
+				description: 'What the recipient may do. Leave empty for the server default.',
+			},
+			{
+				displayName: 'Public Upload',
+				name: 'publicUpload',
+				type: 'boolean',
+				default: false,
+				description: 'Whether visitors of a public link to a folder may upload files',
+			},
+		],
+	},
+	{
+		displayName: 'Update Fields',
+		name: 'updateFields',
+		type: 'collection',
+		placeholder: 'Add Field',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['share'],
+				operation: ['updateShare'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Expiration Date',
+				name: 'expireDate',
+				type: 'dateTime',
+				default: '',
+				description: 'Day after which the share stops working',
+			},
+			{
+				displayName: 'Label',
+				name: 'label',
+				type: 'string',
+				default: '',
+				description: 'Label of a public link, shown in the sharing sidebar',
+			},
+			{
+				displayName: 'Note',
+				name: 'note',
+				type: 'string',
+				default: '',
+				description: 'Note shown to the recipient',
+			},
+			{
+				displayName: 'Password',
+				name: 'password',
+				type: 'string',
+				typeOptions: {
+					password: true,
+				},
+				default: '',
+				description: 'Password that protects a public link or email share',
+			},
+			{
+				displayName: 'Permissions',
+				name: 'permissions',
+				type: 'multiOptions',
+				options: [
+					{
+						name: 'Create',
+						value: 4,
+					},
+					{
+						name: 'Delete',
+						value: 8,
+					},
+					{
+						name: 'Read',
+						value: 1,
+					},
+					{
+						name: 'Share',
+						value: 16,
+					},
+					{
+						name: 'Update',
+						value: 2,
+					},
+				],
+				default: [],
+				description: 'What the recipient may do. Leave empty for the server default.',
+			},
+			{
+				displayName: 'Public Upload',
+				name: 'publicUpload',
+				type: 'boolean',
+				default: false,
+				description: 'Whether visitors of a public link to a folder may upload files',
+			},
+		],
+	},
+	{
+		displayName: 'Options',
+		name: 'listOptions',
+		type: 'collection',
+		placeholder: 'Add Option',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['share'],
+				operation: ['listShares'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Include Reshares',
+				name: 'reshares',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to include shares of the file created by other users',
+			},
+			{
+				displayName: 'Shares of Folder Contents',
+				name: 'subfiles',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to list the shares of the files inside the folder instead of the folder itself',
+			},
+		],
 	},
 ];
 
@@ -371,6 +2961,41 @@ export const webDavFields: INodeProperties[] = [
 	/* -------------------------------------------------------------------------- */
 	...propfindOperationFields,
 
+	/* -------------------------------------------------------------------------- */
+	/*                               file:changes                                 */
+	/* -------------------------------------------------------------------------- */
+	...changesOperationFields,
+
+	/* -------------------------------------------------------------------------- */
+	/*                                file:quota                                  */
+	/* -------------------------------------------------------------------------- */
+	...quotaOperationFields,
+
+	/* -------------------------------------------------------------------------- */
+	/*                            file:capabilities                               */
+	/* -------------------------------------------------------------------------- */
+	...capabilitiesOperationFields,
+
+	/* -------------------------------------------------------------------------- */
+	/*                                file:list                                   */
+	/* -------------------------------------------------------------------------- */
+	...listOperationFields,
+
+	/* -------------------------------------------------------------------------- */
+	/*                               file:search                                  */
+	/* -------------------------------------------------------------------------- */
+	...searchOperationFields,
+
+	/* -------------------------------------------------------------------------- */
+	/*                             file:proppatch                                 */
+	/* -------------------------------------------------------------------------- */
+	...proppatchOperationFields,
+
+	/* -------------------------------------------------------------------------- */
+	/*                            file:getAcl/setAcl                              */
+	/* -------------------------------------------------------------------------- */
+	...aclOperationFields,
+
 	/* -------------------------------------------------------------------------- */
 	/*                               file:mkcol                                   */
 	/* -------------------------------------------------------------------------- */
@@ -390,4 +3015,59 @@ export const webDavFields: INodeProperties[] = [
 	/*                                file:copy                                   */
 	/* -------------------------------------------------------------------------- */
 	...copyOperationFields,
+
+	/* -------------------------------------------------------------------------- */
+	/*                                file:sync                                   */
+	/* -------------------------------------------------------------------------- */
+	...syncOperationFields,
+
+	/* -------------------------------------------------------------------------- */
+	/*                           file:compress/extract                            */
+	/* -------------------------------------------------------------------------- */
+	...archiveOperationFields,
+
+	/* -------------------------------------------------------------------------- */
+	/*                              file:transfer                                 */
+	/* -------------------------------------------------------------------------- */
+	...transferOperationFields,
+
+	/* -------------------------------------------------------------------------- */
+	/*                                file:lock                                   */
+	/* -------------------------------------------------------------------------- */
+	...lockOperationFields,
+
+	/* -------------------------------------------------------------------------- */
+	/*                               file:unlock                                  */
+	/* -------------------------------------------------------------------------- */
+	...unlockOperationFields,
+
+	/* -------------------------------------------------------------------------- */
+	/*                      file:get/put/delete/move/copy                         */
+	/* -------------------------------------------------------------------------- */
+	...optionsFields,
+
+	/* -------------------------------------------------------------------------- */
+	/*                  file:get/put/delete/move/copy/mkcol                       */
+	/* -------------------------------------------------------------------------- */
+	...batchingFields,
+
+	/* -------------------------------------------------------------------------- */
+	/*                                   trash:*                                  */
+	/* -------------------------------------------------------------------------- */
+	...trashFields,
+
+	/* -------------------------------------------------------------------------- */
+	/*                                  version:*                                 */
+	/* -------------------------------------------------------------------------- */
+	...versionFields,
+
+	/* -------------------------------------------------------------------------- */
+	/*                                   share:*                                  */
+	/* -------------------------------------------------------------------------- */
+	...shareFields,
+
+	/* -------------------------------------------------------------------------- */
+	/*                                   file:*                                   */
+	/* -------------------------------------------------------------------------- */
+	...retryFields(['file', 'trash', 'version', 'share']),
 ];
@@ -0,0 +1,399 @@
+import type {
+	IDataObject,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	IPollFunctions,
+} from 'n8n-workflow';
+import { NodeConnectionType, NodeOperationError } from 'n8n-workflow';
+import {
+	createCollectionWalker,
+	createPathHelpers,
+	decodeXmlEntities,
+	escapeXml,
+	globToRegExp,
+	parseMultiStatus,
+	parsePropfindResponse,
+	xmlInner,
+} from './GenericFunctions';
+
+// Change detection state kept in the node's static data between polls
+interface TriggerState {
+	// Identifies the watched folder and settings the state belongs to
+	key: string;
+	// Sync token of the last sync-collection report (sync token mode only)
+	token?: string;
+	// Signature of every known resource keyed by path: the ETag, or size and modification time,
+	// prefixed with "dir:" for folders so deleted folders can still be told apart
+	known: Record<string, string>;
+}
+
+// Typed access to the trigger state in the node's static data
+function getTriggerState(context: IPollFunctions): TriggerState | undefined {
+	return context.getWorkflowStaticData('node').state as TriggerState | undefined;
+}
+
+function setTriggerState(context: IPollFunctions, state: TriggerState): void {
+	context.getWorkflowStaticData('node').state = state;
+}
+
+export class WebDavTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'WebDAV Trigger',
+		name: 'webDavTrigger',
+		icon: { light: 'file:webdav.svg', dark: 'file:webdav.svg' },
+		group: ['trigger'],
+		version: 1,
+		subtitle: '={{ $parameter["events"].join(", ") + ": " + $parameter["path"] }}',
+		description: 'Starts the workflow when files are created, modified or deleted in a WebDAV folder',
+		defaults: {
+			name: 'WebDAV Trigger',
+		},
+		polling: true,
+		inputs: [],
+		outputs: [NodeConnectionType.Main],
+		credentials: [
+			{
+				name: 'davApi',
+				required: true,
+			},
+		],
+		properties: [
+			{
+				displayName: 'Path',
+				name: 'path',
+				type: 'string',
+				default: '/',
+				placeholder: '/path/to/folder',
+				description: 'Folder to watch. Start with "/". Spaces and special characters are auto-encoded.',
+				required: true,
+			},
+			{
+				displayName: 'Events',
+				name: 'events',
+				type: 'multiOptions',
+				default: ['created', 'modified'],
+				description: 'Which changes start the workflow',
+				options: [
+					{
+						name: 'Created',
+						value: 'created',
+					},
+					{
+						name: 'Deleted',
+						value: 'deleted',
+					},
+					{
+						name: 'Modified',
+						value: 'modified',
+					},
+				],
+				required: true,
+			},
+			{
+				displayName: 'Include Subfolders',
+				name: 'recursive',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to watch the whole tree below the folder instead of only its direct members',
+			},
+			{
+				displayName: 'Options',
+				name: 'options',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				options: [
+					{
+						displayName: 'Binary Property',
+						name: 'binaryPropertyName',
+						type: 'string',
+						default: 'data',
+						description: 'Name of the binary property to write downloaded files to',
+						displayOptions: {
+							show: {
+								downloadFiles: [true],
+							},
+						},
+					},
+					{
+						displayName: 'Change Detection',
+						name: 'detection',
+						type: 'options',
+						default: 'snapshot',
+						options: [
+							{
+								name: 'Snapshot',
+								value: 'snapshot',
+								description: 'List the folder with PROPFIND on every poll and compare it with the previous listing. Works with every server.',
+							},
+							{
+								name: 'Sync Token',
+								value: 'syncToken',
+								description: 'Ask only for changes since the last poll using the sync-collection report (RFC 6578). Much faster on large folders; needs server support, e.g. Nextcloud.',
+							},
+						],
+					},
+					{
+						displayName: 'Download Files',
+						name: 'downloadFiles',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to download created and modified files as binary data',
+					},
+					{
+						displayName: 'File Name Pattern',
+						name: 'namePattern',
+						type: 'string',
+						default: '',
+						placeholder: '*.pdf',
+						description: 'Glob pattern such as "*.pdf" or "invoices/**/*.{pdf,xml}". Patterns containing "/" match the path below the watched folder, others the file name.',
+					},
+					{
+						displayName: 'Include Folders',
+						name: 'includeFolders',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to emit events for folders as well as files',
+					},
+				],
+			},
+		],
+	};
+
+	async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
+		const path = this.getNodeParameter('path', '/') as string;
+		const events = this.getNodeParameter('events', []) as string[];
+		const recursive = this.getNodeParameter('recursive', false) as boolean;
+		const options = this.getNodeParameter('options', {}) as IDataObject;
+		const detection = (options.detection as string) || 'snapshot';
+
+		const creds = (await this.getCredentials('davApi')) as { baseUrl?: string };
+		const baseUrl = creds?.baseUrl?.toString().trim();
+		if (!baseUrl || !/^https?:\/\//i.test(baseUrl)) {
+			throw new NodeOperationError(
+				this.getNode(),
+				'Invalid Base URL in credentials. Include protocol (http:// or https://), e.g. https://your-server/remote.php/dav',
+			);
+		}
+		const baseRoot = baseUrl.replace(/\/$/, '');
+		const paths = createPathHelpers(this.getNode(), baseRoot);
+		const normalizePath = paths.normalizePath;
+		// Folder hrefs end with a slash; state and output use paths without it
+		const hrefToPath = (href: string): string => paths.hrefToPath(href).replace(/(.)\/$/, '$1');
+
+		const request = async (opts: IDataObject): Promise<any> => {
+			const url = `${baseRoot}${normalizePath(opts.url as string)}`;
+			const hAny = this.helpers as any;
+			try {
+				if (typeof hAny.httpRequestWithAuthentication === 'function') {
+					return await hAny.httpRequestWithAuthentication.call(this, 'davApi', { ...opts, url });
+				}
+				return await this.helpers.httpRequest({ ...opts, url } as any);
+			} catch (e: any) {
+				const status = e?.statusCode ?? e?.response?.status ?? e?.cause?.response?.status;
+				const reason = status ? `HTTP ${status}` : String(e?.message || e);
+				throw new NodeOperationError(this.getNode(), `WebDAV Trigger request ${opts.method} on "${opts.url}" failed: ${reason}`);
+			}
+		};
+
+		let rootPath = normalizePath(path).replace(/\/$/, '') || '/';
+		try {
+			rootPath = decodeURIComponent(rootPath);
+		} catch {
+			// keep the raw path when it is not valid percent-encoding
+		}
+		const relativeOf = (p: string) => (p === rootPath ? '' : p.slice(rootPath === '/' ? 1 : rootPath.length + 1));
+		const signatureOf = (entry: IDataObject) =>
+			`${entry.isCollection ? 'dir:' : ''}${(entry.etag as string) || `${entry.contentLength ?? ''}:${entry.lastModified ?? ''}`}`;
+		const deletedEntry = (p: string): IDataObject => ({
+			path: p,
+			relativePath: relativeOf(p),
+			name: p.split('/').pop() ?? '',
+			isCollection: known[p].startsWith('dir:'),
+		});
+		const toEntry = (res: IDataObject): IDataObject => {
+			const entryPath = hrefToPath(res.href as string);
+			return {
+				path: entryPath,
+				relativePath: relativeOf(entryPath),
+				name: entryPath.split('/').pop() ?? '',
+				href: res.href,
+				isCollection: res.isCollection,
+				contentType: res.contentType,
+				contentLength: res.contentLength,
+				lastModified: res.lastModified,
+				etag: res.etag,
+			};
+		};
+		const propXml = `
+	<D:prop>
+		<D:resourcetype/>
+		<D:getcontenttype/>
+		<D:getcontentlength/>
+		<D:getlastmodified/>
+		<D:getetag/>
+	</D:prop>`;
+
+		// Full listing of the watched folder, walked with Depth: 1 requests since many servers reject Depth: infinity
+		const walkCollection = createCollectionWalker(
+			paths,
+			async (url, body) =>
+				await request({
+					method: 'PROPFIND',
+					url,
+					body,
+					headers: { Depth: '1', 'Content-Type': 'application/xml' },
+					returnFullResponse: true,
+				}),
+		);
+		const listAll = async (): Promise<Map<string, IDataObject>> => {
+			const found = new Map<string, IDataObject>();
+			// Walked entries carry the href and properties of the response, so they map to trigger entries as well
+			for (const res of await walkCollection(rootPath, { maxDepth: recursive ? 0 : 1 })) {
+				const entry = toEntry(res);
+				found.set(entry.path as string, entry);
+			}
+			return found;
+		};
+
+		const stateKey = `${detection}:${recursive ? 'recursive' : 'flat'}:${rootPath}`;
+		const stored = getTriggerState(this);
+		const previous = stored?.key === stateKey ? stored : undefined;
+		const known: Record<string, string> = { ...(previous?.known ?? {}) };
+		const changes: Array<{ event: string; entry: IDataObject }> = [];
+		let token: string | undefined;
+
+		const diffFullListing = (listing: Map<string, IDataObject>) => {
+			for (const [p, entry] of listing) {
+				const signature = signatureOf(entry);
+				if (!(p in known)) changes.push({ event: 'created', entry });
+				else if (known[p] !== signature) changes.push({ event: 'modified', entry });
+				known[p] = signature;
+			}
+			for (const p of Object.keys(known)) {
+				if (listing.has(p)) continue;
+				changes.push({ event: 'deleted', entry: deletedEntry(p) });
+				delete known[p];
+			}
+		};
+
+		if (detection === 'syncToken') {
+			const syncReport = async (syncToken: string) =>
+				await request({
+					method: 'REPORT',
+					url: rootPath,
+					body: `<?xml version="1.0" encoding="utf-8"?>
+<D:sync-collection xmlns:D="DAV:">
+	<D:sync-token>${escapeXml(syncToken)}</D:sync-token>
+	<D:sync-level>${recursive ? 'infinite' : '1'}</D:sync-level>${propXml}
+</D:sync-collection>`,
+					headers: { Depth: '0', 'Content-Type': 'application/xml' },
+					ignoreHttpStatusErrors: true,
+					returnFullResponse: true,
+				});
+			let response = await syncReport(previous?.token ?? '');
+			let statusCode = response.statusCode ?? response.status;
+			let bodyData = String(response.data ?? response.body ?? '');
+			// An expired token fails the DAV:valid-sync-token precondition; fall back to a full listing
+			const rejected =
+				!!previous?.token && (statusCode === 409 || (statusCode === 403 && /valid-sync-token/.test(bodyData)));
+			if (rejected) {
+				response = await syncReport('');
+				statusCode = response.statusCode ?? response.status;
+				bodyData = String(response.data ?? response.body ?? '');
+			}
+			if (statusCode < 200 || statusCode >= 300) {
+				throw new NodeOperationError(this.getNode(), `WebDAV Trigger sync-collection report on "${path}" failed: HTTP ${statusCode}`);
+			}
+			const outerXml = bodyData.replace(/<(?:[\w-]+:)?response(?:\s[^>]*)?>.*?<\/(?:[\w-]+:)?response>/gs, '');
+			token = decodeXmlEntities(xmlInner(outerXml, 'sync-token') ?? '');
+			const statuses = parseMultiStatus(bodyData);
+			const resources = parsePropfindResponse(bodyData);
+			if (!previous?.token || rejected) {
+				const listing = new Map<string, IDataObject>();
+				resources.forEach((res, i) => {
+					const entry = toEntry(res);
+					if (statuses[i].status === null && entry.path !== rootPath) listing.set(entry.path as string, entry);
+				});
+				diffFullListing(listing);
+			} else {
+				resources.forEach((res, i) => {
+					const entry = toEntry(res);
+					const entryPath = entry.path as string;
+					const status = statuses[i].status;
+					if (entryPath === rootPath || status === 507) return;
+					if (status === 404) {
+						if (entryPath in known) changes.push({ event: 'deleted', entry: deletedEntry(entryPath) });
+						delete known[entryPath];
+						return;
+					}
+					const signature = signatureOf(entry);
+					if (!(entryPath in known)) changes.push({ event: 'created', entry });
+					else if (known[entryPath] !== signature) changes.push({ event: 'modified', entry });
+					known[entryPath] = signature;
+				});
+			}
+		} else {
+			diffFullListing(await listAll());
+		}
+
+		// The new state is only saved once the items for every change are built, so changes whose download
+		// fails are reported again on the next poll instead of being lost
+		const saveState = () => setTriggerState(this, { key: stateKey, token, known });
+
+		// The first poll only records the current state; a manual test run shows the newest matching resource instead
+		const isManual = this.getMode() === 'manual';
+		if (!previous && !isManual) {
+			saveState();
+			return null;
+		}
+
+		const pattern = (options.namePattern as string) || '';
+		let matcher: RegExp | undefined;
+		try {
+			if (pattern) matcher = globToRegExp(pattern);
+		} catch (e) {
+			throw new NodeOperationError(this.getNode(), `Invalid file name pattern "${pattern}": ${(e as Error).message}`);
+		}
+		let selected = changes.filter(({ event, entry }) => {
+			if (!events.includes(event)) return false;
+			if (entry.isCollection && !options.includeFolders) return false;
+			if (matcher && !matcher.test((pattern.includes('/') ? entry.relativePath : entry.name) as string)) return false;
+			return true;
+		});
+		if (!previous) {
+			const modified = (c: { entry: IDataObject }) => Date.parse(String(c.entry.lastModified ?? '')) || 0;
+			selected = selected.sort((a, b) => modified(b) - modified(a)).slice(0, 1);
+		}
+		if (!selected.length) {
+			saveState();
+			return null;
+		}
+
+		const binaryPropertyName = (options.binaryPropertyName as string) || 'data';
+		const returnItems: INodeExecutionData[] = [];
+		for (const { event, entry } of selected) {
+			const item: INodeExecutionData = { json: { event, ...entry } };
+			if (options.downloadFiles && event !== 'deleted' && !entry.isCollection) {
+				// Streamed into the binary data store instead of being held in memory
+				const response = await request({
+					method: 'GET',
+					url: entry.path as string,
+					encoding: 'stream',
+					returnFullResponse: true,
+				});
+				item.binary = {
+					[binaryPropertyName]: await this.helpers.prepareBinaryData(
+						response.body ?? response.data,
+						entry.name as string,
+						(entry.contentType as string) || undefined,
+					),
+				};
+			}
+			returnItems.push(item);
+		}
+		saveState();
+		return [returnItems];
+	}
+}
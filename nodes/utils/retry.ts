@@ -0,0 +1,159 @@
+import type { IDataObject, INodeProperties } from 'n8n-workflow';
+
+// Retries for transient DAV server failures, shared by the WebDAV, CalDAV and CardDAV nodes
+
+export interface RetryOptions {
+	maxRetries: number;
+	initialDelay: number;
+	maxDelay: number;
+}
+
+// Connection errors that are worth another attempt; DNS or refused connections are not
+const RETRYABLE_ERROR_CODES = ['ECONNRESET', 'ETIMEDOUT', 'ESOCKETTIMEDOUT', 'EPIPE', 'EAI_AGAIN'];
+const RETRYABLE_STATUS_CODES = [429, 502, 503, 504];
+// Repeating these methods cannot apply a change twice. Other methods (POST, MKCOL, LOCK, COPY, MOVE, ...)
+// may already have taken effect when the connection dropped or a gateway timed out.
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE', 'PROPFIND', 'OPTIONS', 'REPORT', 'SEARCH'];
+
+// The "retry" node parameter, shown for the given resources. Read it with getRetryOptions.
+export function retryFields(resources: string[]): INodeProperties[] {
+	return [
+		{
+			displayName: 'Retry',
+			name: 'retry',
+			type: 'collection',
+			placeholder: 'Add Option',
+			default: {},
+			description: 'Repeat requests that fail with a transient error. Add Max Retries to turn retries on.',
+			displayOptions: {
+				show: {
+					resource: resources,
+				},
+			},
+			options: [
+				{
+					displayName: 'Initial Delay (Ms)',
+					name: 'initialDelay',
+					type: 'number',
+					default: 1000,
+					typeOptions: {
+						minValue: 0,
+					},
+					description: 'Delay before the first retry. It doubles with every further attempt, with random jitter.',
+				},
+				{
+					displayName: 'Max Delay (Ms)',
+					name: 'maxDelay',
+					type: 'number',
+					default: 30000,
+					typeOptions: {
+						minValue: 0,
+					},
+					description: 'Upper bound for a single delay, including delays requested by the server via Retry-After',
+				},
+				{
+					displayName: 'Max Retries',
+					name: 'maxRetries',
+					type: 'number',
+					default: 3,
+					typeOptions: {
+						minValue: 0,
+					},
+					description: 'How often a request is repeated after a dropped connection, a timeout or an HTTP 429, 502, 503 or 504 response',
+				},
+			],
+		},
+	];
+}
+
+// Read the "retry" node parameter. An empty collection disables retries.
+export function getRetryOptions(value: unknown): RetryOptions {
+	const raw = (value && typeof value === 'object' ? value : {}) as IDataObject;
+	return {
+		maxRetries: Math.max(0, Number(raw.maxRetries ?? 0) || 0),
+		initialDelay: Math.max(0, Number(raw.initialDelay ?? 1000) || 0),
+		maxDelay: Math.max(0, Number(raw.maxDelay ?? 30000) || 0),
+	};
+}
+
+function statusOf(source: any): number | undefined {
+	const status =
+		source?.statusCode ?? source?.status ?? source?.response?.status ?? source?.cause?.response?.status;
+	return status === undefined ? undefined : Number(status);
+}
+
+function headersOf(source: any): Record<string, unknown> {
+	return source?.headers ?? source?.response?.headers ?? source?.cause?.response?.headers ?? {};
+}
+
+export function isRetryableError(e: any): boolean {
+	const code = e?.code ?? e?.cause?.code;
+	if (code && RETRYABLE_ERROR_CODES.includes(code)) return true;
+	const status = statusOf(e);
+	return status !== undefined && RETRYABLE_STATUS_CODES.includes(status);
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: unknown, now = Date.now()): number | undefined {
+	if (value === undefined || value === null || value === '') return undefined;
+	const text = String(value).trim();
+	if (/^\d+$/.test(text)) return Number(text) * 1000;
+	const date = Date.parse(text);
+	return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// Exponential backoff with jitter: half of the exponential delay plus a random share of the other half.
+// A Retry-After from the server takes precedence; both are capped by maxDelay.
+export function retryDelay(attempt: number, options: RetryOptions, retryAfter?: number): number {
+	if (retryAfter !== undefined) return Math.min(retryAfter, options.maxDelay);
+	const exponential = Math.min(options.maxDelay, options.initialDelay * 2 ** attempt);
+	return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+// Only idempotent methods are repeated on every transient failure. Other methods are repeated only
+// when the server refused the request with 429 or 503 and a Retry-After header, i.e. did not process it.
+export function isRetryableMethod(method: string | undefined, failure: unknown, status: number | undefined): boolean {
+	if (IDEMPOTENT_METHODS.includes(String(method ?? 'GET').toUpperCase())) return true;
+	return (status === 429 || status === 503) && parseRetryAfter(headersOf(failure)['retry-after']) !== undefined;
+}
+
+// Run a request and repeat it on transient failures. Responses returned with a retryable status
+// (when HTTP errors are ignored) are retried as well; once retries are exhausted the last error is
+// thrown or the last response returned. The options are only read when a retry is needed.
+// "method" is the HTTP method of the request, see isRetryableMethod.
+export async function requestWithRetry<T>(
+	send: () => Promise<T>,
+	getOptions: () => RetryOptions,
+	onRetry: () => void,
+	method?: string,
+): Promise<T> {
+	let options: RetryOptions | undefined;
+	for (let attempt = 0; ; attempt++) {
+		let result: T | undefined;
+		let error: any;
+		try {
+			result = await send();
+		} catch (e) {
+			error = e;
+		}
+		const failed = error ?? result;
+		const status = statusOf(failed);
+		const retryable =
+			(error
+				? isRetryableError(error)
+				: !Buffer.isBuffer(result) && status !== undefined && RETRYABLE_STATUS_CODES.includes(status)) &&
+			isRetryableMethod(method, failed, status);
+		if (retryable) {
+			options ??= getOptions();
+		}
+		if (!retryable || attempt >= options!.maxRetries) {
+			if (error) throw error;
+			return result as T;
+		}
+		// Release a streamed body of a response that is about to be discarded
+		if (!error && typeof (result as any)?.body?.destroy === 'function') (result as any).body.destroy();
+		const delay = retryDelay(attempt, options!, parseRetryAfter(headersOf(failed)['retry-after']));
+		await new Promise<void>((resolve) => setTimeout(resolve, delay));
+		onRetry();
+	}
+}